@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { bodyFileName, openNetworkArchive, readArchiveIndex, replayHeaders } from "./archive.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+  rename: vi.fn(),
+  mkdir: vi.fn(),
+}));
+
+import * as fs from "node:fs/promises";
+
+type Handler = (event: unknown) => void;
+
+/** Page stand-in that lets tests emit request and response events */
+function mockPage() {
+  const handlers: Record<string, Handler> = {};
+  return {
+    handlers,
+    on: vi.fn((event: string, handler: Handler) => {
+      handlers[event] = handler;
+    }),
+    setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+    setRequestInterception: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function mockResponse(url: string, status: number, body: string, method = "GET") {
+  return {
+    url: () => url,
+    status: () => status,
+    headers: () => ({ "content-type": "text/html", "content-encoding": "gzip" }),
+    buffer: vi.fn().mockResolvedValue(Buffer.from(body)),
+    request: () => ({ method: () => method }),
+  };
+}
+
+function mockRequest(url: string, method = "GET") {
+  return {
+    url: () => url,
+    method: () => method,
+    respond: vi.fn().mockResolvedValue(undefined),
+    abort: vi.fn().mockResolvedValue(undefined),
+    continue: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+/** Wait for event handlers that run in the background */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+const pageUrl = "https://example.com/ch1";
+const recorded = {
+  version: 1,
+  responses: [
+    {
+      url: pageUrl,
+      status: 200,
+      headers: { "content-type": "text/html", "content-length": "12" },
+      body: bodyFileName(pageUrl),
+    },
+  ],
+};
+
+/** Serve archive.json and the body of the recorded page */
+function mockArchiveFiles(index: unknown = recorded) {
+  vi.mocked(fs.readFile).mockImplementation((filePath) => {
+    const name = String(filePath);
+    if (name === "archive/archive.json") return Promise.resolve(JSON.stringify(index));
+    if (name === `archive/${bodyFileName(pageUrl)}`) return Promise.resolve(Buffer.from("<p>Saved</p>"));
+    return Promise.reject(Object.assign(new Error("ENOENT"), { code: "ENOENT" }));
+  });
+}
+
+describe("bodyFileName", () => {
+  it("names bodies by a hash of their URL", () => {
+    expect(bodyFileName(pageUrl)).toMatch(/^bodies\/[0-9a-f]{64}$/);
+    expect(bodyFileName(pageUrl)).not.toBe(bodyFileName("https://example.com/ch2"));
+  });
+});
+
+describe("replayHeaders", () => {
+  it("drops headers about the encoded body", () => {
+    expect(
+      replayHeaders({ "content-type": "image/png", "content-encoding": "br", "Content-Length": "10", etag: "x" }),
+    ).toEqual({ "content-type": "image/png", etag: "x" });
+  });
+});
+
+describe("readArchiveIndex", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns recorded responses by URL", async () => {
+    mockArchiveFiles();
+
+    const responses = await readArchiveIndex("archive");
+
+    expect(responses?.get(pageUrl)?.status).toBe(200);
+  });
+
+  it("returns null without an index", async () => {
+    mockArchiveFiles();
+
+    expect(await readArchiveIndex("elsewhere")).toBeNull();
+  });
+
+  it("rejects files that are not archives", async () => {
+    mockArchiveFiles({ chapters: [] });
+
+    await expect(readArchiveIndex("archive")).rejects.toThrow("Not a network archive");
+  });
+});
+
+describe("recording", () => {
+  let mockFetch: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch = vi.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    mockFetch.mockRestore();
+  });
+
+  it("saves page responses and writes a sorted index", async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error("ENOENT"), { code: "ENOENT" }));
+    const archive = await openNetworkArchive("archive", "record");
+    const page = mockPage();
+
+    await archive.attach(page as never);
+    page.handlers.response(mockResponse("https://example.com/style.css", 200, "body {}"));
+    page.handlers.response(mockResponse(pageUrl, 200, "<p>Live</p>"));
+    page.handlers.response(mockResponse("https://example.com/track", 200, "", "POST"));
+    page.handlers.response(mockResponse("data:image/png;base64,AAAA", 200, ""));
+    await archive.save();
+
+    expect(fs.mkdir).toHaveBeenCalledWith("archive/bodies", { recursive: true });
+    expect(page.setCacheEnabled).toHaveBeenCalledWith(false);
+    expect(fs.writeFile).toHaveBeenCalledWith(`archive/${bodyFileName(pageUrl)}`, Buffer.from("<p>Live</p>"));
+    expect(archive.size).toBe(2);
+
+    const [indexPath, content] = vi.mocked(fs.writeFile).mock.calls.at(-1) ?? [];
+    expect(indexPath).toBe("archive/archive.json.tmp");
+    const index = JSON.parse(String(content));
+    expect(index.responses.map((response: { url: string }) => response.url)).toEqual([
+      pageUrl,
+      "https://example.com/style.css",
+    ]);
+    expect(fs.rename).toHaveBeenCalledWith("archive/archive.json.tmp", "archive/archive.json");
+  });
+
+  it("records redirects without reading their body", async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error("ENOENT"), { code: "ENOENT" }));
+    const archive = await openNetworkArchive("archive", "record");
+    const page = mockPage();
+    const redirect = mockResponse("https://example.com/old", 301, "");
+
+    await archive.attach(page as never);
+    page.handlers.response(redirect);
+    await archive.save();
+
+    expect(redirect.buffer).not.toHaveBeenCalled();
+    expect(archive.size).toBe(1);
+  });
+
+  it("keeps the responses of an existing archive", async () => {
+    mockArchiveFiles();
+
+    const archive = await openNetworkArchive("archive", "record");
+
+    expect(archive.size).toBe(1);
+  });
+
+  it("saves fetched responses and returns them unread", async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error("ENOENT"), { code: "ENOENT" }));
+    mockFetch.mockResolvedValueOnce(
+      new Response("<urlset/>", { status: 200, headers: { "content-type": "text/xml" } }),
+    );
+    const archive = await openNetworkArchive("archive", "record");
+
+    const response = await archive.fetch("https://example.com/sitemap.xml");
+
+    expect(await response.text()).toBe("<urlset/>");
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      `archive/${bodyFileName("https://example.com/sitemap.xml")}`,
+      new Uint8Array(Buffer.from("<urlset/>")),
+    );
+    expect(archive.size).toBe(1);
+  });
+});
+
+describe("replay", () => {
+  let mockFetch: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch = vi.spyOn(global, "fetch");
+    mockArchiveFiles();
+  });
+
+  afterEach(() => {
+    mockFetch.mockRestore();
+  });
+
+  it("requires an existing archive", async () => {
+    await expect(openNetworkArchive("elsewhere", "replay")).rejects.toThrow("No archive.json found");
+  });
+
+  it("answers page requests from the archive", async () => {
+    const archive = await openNetworkArchive("archive", "replay");
+    const page = mockPage();
+    const request = mockRequest(pageUrl);
+
+    await archive.attach(page as never);
+    page.handlers.request(request);
+    await settle();
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(request.respond).toHaveBeenCalledWith({
+      status: 200,
+      headers: { "content-type": "text/html" },
+      body: Buffer.from("<p>Saved</p>"),
+    });
+    expect(archive.missing.size).toBe(0);
+  });
+
+  it("fails requests that were not recorded", async () => {
+    const archive = await openNetworkArchive("archive", "replay");
+    const page = mockPage();
+    const missing = mockRequest("https://example.com/ch2");
+    const post = mockRequest(pageUrl, "POST");
+    const data = mockRequest("data:image/png;base64,AAAA");
+
+    await archive.attach(page as never);
+    page.handlers.request(missing);
+    page.handlers.request(post);
+    page.handlers.request(data);
+    await settle();
+
+    expect(missing.abort).toHaveBeenCalledWith("internetdisconnected");
+    expect(post.abort).toHaveBeenCalledWith("internetdisconnected");
+    expect(data.continue).toHaveBeenCalled();
+    expect([...archive.missing]).toEqual(["https://example.com/ch2"]);
+  });
+
+  it("fails requests whose recorded body can't be read", async () => {
+    vi.mocked(fs.readFile).mockImplementation((filePath) =>
+      String(filePath) === "archive/archive.json"
+        ? Promise.resolve(JSON.stringify(recorded))
+        : Promise.reject(Object.assign(new Error("EACCES"), { code: "EACCES" })),
+    );
+    const archive = await openNetworkArchive("archive", "replay");
+    const page = mockPage();
+    const request = mockRequest(pageUrl);
+
+    await archive.attach(page as never);
+    page.handlers.request(request);
+    await settle();
+
+    expect(request.respond).not.toHaveBeenCalled();
+    expect(request.abort).toHaveBeenCalledWith("failed");
+    expect([...archive.missing]).toEqual([pageUrl]);
+  });
+
+  it("answers fetches without the network", async () => {
+    const archive = await openNetworkArchive("archive", "replay");
+
+    const response = await archive.fetch(pageUrl);
+    const missing = await archive.fetch("https://example.com/sitemap.xml");
+
+    expect(await response.text()).toBe("<p>Saved</p>");
+    expect(response.headers.get("content-type")).toBe("text/html");
+    expect(missing.status).toBe(404);
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(archive.missing.has("https://example.com/sitemap.xml")).toBe(true);
+  });
+});
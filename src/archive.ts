@@ -0,0 +1,284 @@
+/**
+ * Network archives for offline scrapes (--record, --replay)
+ *
+ * Record mode saves every GET response the browser pages and fetchWithRetry receive
+ * (HTML, scripts, stylesheets, images, sitemaps) to a directory. Replay mode serves
+ * those responses through request interception, so a scrape runs without network access
+ * and sees exactly the pages that were recorded.
+ *
+ * Archive layout:
+ *   archive.json   # Index: URL, status and headers of each response
+ *   bodies/        # Response bodies, named by a hash of their URL
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { HTTPRequest, HTTPResponse, Page } from "puppeteer";
+
+/** Whether an archive is being written or served */
+export type NetworkMode = "record" | "replay";
+
+/** A recorded response, as listed in archive.json */
+export interface ArchivedResponse {
+  /** Requested URL */
+  url: string;
+  /** HTTP status code */
+  status: number;
+  /** Response headers (lowercase names) */
+  headers: Record<string, string>;
+  /** Body file, relative to the archive directory */
+  body: string;
+}
+
+/** Contents of archive.json */
+interface ArchiveIndex {
+  version: 1;
+  responses: ArchivedResponse[];
+}
+
+/** An open network archive */
+export interface NetworkArchive {
+  /** Archive mode */
+  mode: NetworkMode;
+  /** Archive directory */
+  dir: string;
+  /** Number of responses in the archive */
+  readonly size: number;
+  /** Replay mode: URLs that were requested but could not be answered from the archive */
+  missing: Set<string>;
+  /**
+   * Drop-in replacement for fetch() (see setFetchHandler).
+   * Record mode fetches and saves the response; replay mode answers from the archive,
+   * with a 404 for URLs it doesn't have.
+   */
+  fetch(url: string): Promise<Response>;
+  /** Record or replay the requests of a browser page */
+  attach(page: Page): Promise<void>;
+  /** Record mode: wait for pending bodies and write archive.json */
+  save(): Promise<void>;
+}
+
+/** Name of the index file in an archive directory */
+export const ARCHIVE_INDEX = "archive.json";
+
+/** Body encodings are undone when bodies are read, so these headers no longer apply on replay */
+const STALE_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding"]);
+
+/** Statuses whose responses cannot have a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Name the body file of a URL.
+ *
+ * @param url - Requested URL
+ * @returns Path relative to the archive directory
+ */
+export function bodyFileName(url: string): string {
+  return `bodies/${createHash("sha256").update(url).digest("hex")}`;
+}
+
+/**
+ * Remove headers that describe the body as sent over the network.
+ *
+ * @param headers - Recorded headers
+ * @returns Headers that still apply to the decoded body
+ */
+export function replayHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !STALE_HEADERS.has(name.toLowerCase())));
+}
+
+/**
+ * Whether a URL goes over the network (data: and blob: URLs never do).
+ *
+ * @param url - Request URL
+ * @returns True for http(s) URLs
+ */
+function isNetworkUrl(url: string): boolean {
+  return url.startsWith("http://") || url.startsWith("https://");
+}
+
+/**
+ * Read the index of an archive directory.
+ *
+ * @param dir - Archive directory
+ * @returns Recorded responses by URL, or null if the directory has no index
+ * @throws Error if the index cannot be read or is not a network archive
+ */
+export async function readArchiveIndex(dir: string): Promise<Map<string, ArchivedResponse> | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, ARCHIVE_INDEX), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  const data = JSON.parse(content) as Partial<ArchiveIndex> | null;
+  if (data?.version !== 1 || !Array.isArray(data.responses)) {
+    throw new Error("Not a network archive");
+  }
+  return new Map(data.responses.map((response) => [response.url, response]));
+}
+
+/**
+ * Open an archive directory for recording or replay.
+ * Recording into an existing archive keeps its responses, so a resumed scrape adds to it.
+ *
+ * @param dir - Archive directory
+ * @param mode - Record or replay
+ * @returns Open archive
+ * @throws Error if replaying a directory without an archive, or the index is invalid
+ */
+export async function openNetworkArchive(dir: string, mode: NetworkMode): Promise<NetworkArchive> {
+  const existing = await readArchiveIndex(dir);
+  if (mode === "replay" && !existing) {
+    throw new Error(`No ${ARCHIVE_INDEX} found`);
+  }
+  if (mode === "record") {
+    await fs.mkdir(path.join(dir, "bodies"), { recursive: true });
+  }
+  return mode === "record" ? createRecorder(dir, existing ?? new Map()) : createReplayer(dir, existing ?? new Map());
+}
+
+/**
+ * Create an archive that saves responses as they arrive.
+ *
+ * @param dir - Archive directory
+ * @param responses - Responses already in the archive
+ * @returns Recording archive
+ */
+function createRecorder(dir: string, responses: Map<string, ArchivedResponse>): NetworkArchive {
+  // Body writes in flight; save() waits for them before writing the index
+  const pending = new Set<Promise<void>>();
+
+  const store = async (url: string, status: number, headers: Record<string, string>, body: Uint8Array) => {
+    const file = bodyFileName(url);
+    await fs.writeFile(path.join(dir, file), body);
+    responses.set(url, { url, status, headers, body: file });
+  };
+
+  const track = (work: Promise<void>) => {
+    pending.add(work);
+    void work.finally(() => pending.delete(work));
+  };
+
+  const recordResponse = async (response: HTTPResponse) => {
+    const url = response.url();
+    if (response.request().method() !== "GET" || !isNetworkUrl(url)) return;
+    const status = response.status();
+    let body: Uint8Array = new Uint8Array();
+    // Redirects have no body; the browser requests their target separately
+    if (status < 300 || status >= 400) {
+      try {
+        body = await response.buffer();
+      } catch {
+        // Body no longer available (e.g. the page navigated away)
+        return;
+      }
+    }
+    await store(url, status, response.headers(), body);
+  };
+
+  return {
+    mode: "record",
+    dir,
+    get size() {
+      return responses.size;
+    },
+    missing: new Set(),
+    async fetch(url) {
+      const response = await fetch(url);
+      const body = new Uint8Array(await response.clone().arrayBuffer());
+      const work = store(url, response.status, Object.fromEntries(response.headers), body);
+      track(work);
+      await work;
+      return response;
+    },
+    async attach(page) {
+      // Cached responses may come without a body, so every resource is fetched
+      await page.setCacheEnabled(false);
+      page.on("response", (response: HTTPResponse) => {
+        track(recordResponse(response).catch(() => undefined));
+      });
+    },
+    async save() {
+      await Promise.all(pending);
+      const index: ArchiveIndex = {
+        version: 1,
+        responses: [...responses.values()].sort((a, b) => a.url.localeCompare(b.url)),
+      };
+      const indexPath = path.join(dir, ARCHIVE_INDEX);
+      await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index, null, 2), "utf-8");
+      await fs.rename(`${indexPath}.tmp`, indexPath);
+    },
+  };
+}
+
+/**
+ * Create an archive that answers requests from recorded responses.
+ *
+ * @param dir - Archive directory
+ * @param responses - Recorded responses by URL
+ * @returns Replaying archive
+ */
+function createReplayer(dir: string, responses: Map<string, ArchivedResponse>): NetworkArchive {
+  const missing = new Set<string>();
+
+  const lookup = (url: string): ArchivedResponse | null => {
+    const response = responses.get(url);
+    if (!response) {
+      missing.add(url);
+      return null;
+    }
+    return response;
+  };
+
+  const replayRequest = async (request: HTTPRequest) => {
+    const url = request.url();
+    if (!isNetworkUrl(url)) {
+      await request.continue();
+      return;
+    }
+    const response = request.method() === "GET" ? lookup(url) : null;
+    if (!response) {
+      await request.abort("internetdisconnected");
+      return;
+    }
+    await request.respond({
+      status: response.status,
+      headers: replayHeaders(response.headers),
+      body: await fs.readFile(path.join(dir, response.body)),
+    });
+  };
+
+  return {
+    mode: "replay",
+    dir,
+    get size() {
+      return responses.size;
+    },
+    missing,
+    async fetch(url) {
+      const response = lookup(url);
+      if (!response) {
+        return new Response(null, { status: 404, statusText: "Not in network archive" });
+      }
+      const body = NULL_BODY_STATUSES.has(response.status) ? null : await fs.readFile(path.join(dir, response.body));
+      return new Response(body, { status: response.status, headers: replayHeaders(response.headers) });
+    },
+    async attach(page) {
+      await page.setRequestInterception(true);
+      page.on("request", (request: HTTPRequest) => {
+        replayRequest(request).catch(() => {
+          // Unreadable body file: fail the request instead of leaving the page waiting for it
+          missing.add(request.url());
+          request.abort("failed").catch(() => undefined);
+        });
+      });
+    },
+    async save() {
+      // Nothing to write: a replayed archive is never changed
+    },
+  };
+}
@@ -1,5 +1,17 @@
+// @vitest-environment happy-dom
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { createPage, DEFAULT_USER_AGENT, DEFAULT_VIEWPORT, launchBrowser } from "./browser.js";
+import {
+  autoScroll,
+  createPage,
+  DEFAULT_USER_AGENT,
+  DEFAULT_VIEWPORT,
+  EXPAND_SETTLE_MS,
+  expandCollapsibleContent,
+  launchBrowser,
+  loadSnapshot,
+  waitForReady,
+  withBaseUrl,
+} from "./browser.js";
 
 // Mock puppeteer
 vi.mock("puppeteer", () => ({
@@ -67,4 +79,224 @@ describe("createPage", () => {
     expect(mockPage.setViewport).toHaveBeenCalledWith(DEFAULT_VIEWPORT);
     expect(page).toBe(mockPage);
   });
+
+  it("leaves animations alone by default", async () => {
+    const mockPage = {
+      setUserAgent: vi.fn().mockResolvedValue(undefined),
+      setViewport: vi.fn().mockResolvedValue(undefined),
+      evaluateOnNewDocument: vi.fn().mockResolvedValue(undefined),
+    };
+    const mockBrowser = { newPage: vi.fn().mockResolvedValue(mockPage) };
+
+    await createPage(mockBrowser as unknown as Awaited<ReturnType<typeof puppeteer.launch>>);
+
+    expect(mockPage.evaluateOnNewDocument).not.toHaveBeenCalled();
+  });
+
+  it("injects the reveal script when animations are disabled", async () => {
+    const mockPage = {
+      setUserAgent: vi.fn().mockResolvedValue(undefined),
+      setViewport: vi.fn().mockResolvedValue(undefined),
+      evaluateOnNewDocument: vi.fn().mockResolvedValue(undefined),
+    };
+    const mockBrowser = { newPage: vi.fn().mockResolvedValue(mockPage) };
+
+    await createPage(mockBrowser as unknown as Awaited<ReturnType<typeof puppeteer.launch>>, {
+      disableAnimations: true,
+    });
+
+    const script = mockPage.evaluateOnNewDocument.mock.calls[0][0] as string;
+    expect(() => new Function(script)).not.toThrow();
+    expect(script).toContain("t-animate_started");
+    expect(script).toContain("opacity: 1 !important");
+  });
+});
+
+describe("withBaseUrl", () => {
+  it("puts the base element first in head", () => {
+    expect(withBaseUrl('<html><head lang="en"><title>T</title></head></html>', "https://example.com/a?b=1&c=2")).toBe(
+      '<html><head lang="en"><base href="https://example.com/a?b=1&amp;c=2"><title>T</title></head></html>',
+    );
+  });
+
+  it("prepends the base element to HTML without head", () => {
+    expect(withBaseUrl("<p>Text</p>", "https://example.com/")).toBe('<base href="https://example.com/"><p>Text</p>');
+  });
+});
+
+describe("loadSnapshot", () => {
+  it("loads the HTML offline with scripts disabled", async () => {
+    const mockPage = {
+      setOfflineMode: vi.fn().mockResolvedValue(undefined),
+      setJavaScriptEnabled: vi.fn().mockResolvedValue(undefined),
+      setContent: vi.fn().mockResolvedValue(undefined),
+    };
+
+    await loadSnapshot(
+      mockPage as unknown as Parameters<typeof loadSnapshot>[0],
+      "<html><head></head><body></body></html>",
+      "https://example.com/page",
+    );
+
+    expect(mockPage.setOfflineMode).toHaveBeenCalledWith(true);
+    expect(mockPage.setJavaScriptEnabled).toHaveBeenCalledWith(false);
+    expect(mockPage.setContent).toHaveBeenCalledWith(
+      '<html><head><base href="https://example.com/page"></head><body></body></html>',
+      { waitUntil: "domcontentloaded" },
+    );
+  });
+});
+
+describe("expandCollapsibleContent", () => {
+  it("runs the expansion script with the default settle time", async () => {
+    const mockPage = { evaluate: vi.fn().mockResolvedValue(3) };
+
+    const clicked = await expandCollapsibleContent(
+      mockPage as unknown as Parameters<typeof expandCollapsibleContent>[0],
+    );
+
+    expect(clicked).toBe(3);
+    expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), EXPAND_SETTLE_MS);
+  });
+
+  it("passes a custom settle time", async () => {
+    const mockPage = { evaluate: vi.fn().mockResolvedValue(0) };
+
+    await expandCollapsibleContent(mockPage as unknown as Parameters<typeof expandCollapsibleContent>[0], 100);
+
+    expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), 100);
+  });
+});
+
+describe("expandCollapsibleContent in the page", () => {
+  /** Page stand-in that runs the expansion script against the test document */
+  const domPage = {
+    evaluate: (fn: (settleMs: number) => Promise<number>, settleMs: number) => fn(settleMs),
+  } as unknown as Parameters<typeof expandCollapsibleContent>[0];
+
+  /** Record the toggles that were clicked, by their data-name */
+  function trackClicks(): string[] {
+    const clicked: string[] = [];
+    document.body.addEventListener("click", (event) => {
+      clicked.push((event.target as HTMLElement).dataset.name ?? "");
+    });
+    return clicked;
+  }
+
+  it("clicks closed accordion headers, tabs and read-more toggles", async () => {
+    document.body.innerHTML = `
+      <div class="t585__accordion"><div class="t585__header" data-name="closed">Q1</div></div>
+      <div class="t668__accordion"><div class="t668__header" aria-expanded="false" data-name="collapsed">Q2</div></div>
+      <div class="t397__tab" data-name="tab1">Tab 1</div>
+      <button role="tab" data-name="tab2">Tab 2</button>
+      <span class="t-readmore" data-name="readmore">Read more</span>
+      <div class="t-text" data-name="text">Plain text</div>`;
+    const clicked = trackClicks();
+
+    expect(await expandCollapsibleContent(domPage, 0)).toBe(5);
+    expect(clicked).toEqual(["closed", "collapsed", "tab1", "tab2", "readmore"]);
+  });
+
+  it("leaves open items and navigating links alone", async () => {
+    document.body.innerHTML = `
+      <div class="t585__accordion"><div class="t585__header" aria-expanded="true" data-name="open">Q1</div></div>
+      <div class="t585__accordion"><div class="t585__header t585__opened" data-name="opened">Q2</div></div>
+      <div class="t397__tab t397__tab_active" data-name="active">Tab 1</div>
+      <a href="/next-chapter"><span class="t-readmore" data-name="link">Read more</span></a>
+      <a href="#more"><span class="t-readmore" data-name="anchor">Read more</span></a>`;
+    const clicked = trackClicks();
+
+    expect(await expandCollapsibleContent(domPage, 0)).toBe(1);
+    expect(clicked).toEqual(["anchor"]);
+  });
+});
+
+describe("autoScroll", () => {
+  it("runs the scroll script with step, pause and a step limit", async () => {
+    const mockPage = { evaluate: vi.fn().mockResolvedValue(undefined) };
+
+    await autoScroll(mockPage as unknown as Parameters<typeof autoScroll>[0], { step: 400, pause: 100 });
+
+    expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), 400, 100, expect.any(Number));
+  });
+});
+
+describe("waitForReady", () => {
+  type ReadyPage = Parameters<typeof waitForReady>[0];
+  const timeoutError = () => Object.assign(new Error("Waiting failed"), { name: "TimeoutError" });
+
+  it("returns immediately for the delay strategy", async () => {
+    const mockPage = { evaluate: vi.fn() };
+
+    const ready = await waitForReady(mockPage as unknown as ReadyPage, {
+      strategy: "delay",
+      selector: null,
+      timeout: 1000,
+    });
+
+    expect(ready).toBe(true);
+    expect(mockPage.evaluate).not.toHaveBeenCalled();
+  });
+
+  it("waits for network idle with the timeout", async () => {
+    const mockPage = { waitForNetworkIdle: vi.fn().mockResolvedValue(undefined) };
+
+    const ready = await waitForReady(mockPage as unknown as ReadyPage, {
+      strategy: "network-idle",
+      selector: null,
+      timeout: 5000,
+    });
+
+    expect(ready).toBe(true);
+    expect(mockPage.waitForNetworkIdle).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
+  });
+
+  it("waits for the configured selector", async () => {
+    const mockPage = { waitForSelector: vi.fn().mockResolvedValue({}) };
+
+    await waitForReady(mockPage as unknown as ReadyPage, { strategy: "selector", selector: ".t-text", timeout: 2000 });
+
+    expect(mockPage.waitForSelector).toHaveBeenCalledWith(".t-text", { timeout: 2000 });
+  });
+
+  it("waits for Tilda records to initialize", async () => {
+    const mockPage = { waitForFunction: vi.fn().mockResolvedValue({}) };
+
+    await waitForReady(mockPage as unknown as ReadyPage, { strategy: "records", selector: null, timeout: 2000 });
+
+    expect(mockPage.waitForFunction).toHaveBeenCalledWith(expect.any(Function), { timeout: 2000 });
+  });
+
+  it("returns the text-stable result from the page", async () => {
+    const mockPage = { evaluate: vi.fn().mockResolvedValue(false) };
+
+    const ready = await waitForReady(mockPage as unknown as ReadyPage, {
+      strategy: "text-stable",
+      selector: null,
+      timeout: 2000,
+    });
+
+    expect(ready).toBe(false);
+    expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), 2000, expect.any(Number), expect.any(Number));
+  });
+
+  it("returns false instead of throwing on timeout", async () => {
+    const mockPage = { waitForNetworkIdle: vi.fn().mockRejectedValue(timeoutError()) };
+
+    const ready = await waitForReady(mockPage as unknown as ReadyPage, {
+      strategy: "network-idle",
+      selector: null,
+      timeout: 100,
+    });
+
+    expect(ready).toBe(false);
+  });
+
+  it("rethrows other errors", async () => {
+    const mockPage = { waitForSelector: vi.fn().mockRejectedValue(new Error("Target closed")) };
+
+    await expect(
+      waitForReady(mockPage as unknown as ReadyPage, { strategy: "selector", selector: "main", timeout: 100 }),
+    ).rejects.toThrow("Target closed");
+  });
 });
@@ -5,6 +5,7 @@
  */
 
 import puppeteer, { type Browser, type Page } from "puppeteer";
+import { pageScript } from "./utils.js";
 
 /**
  * Realistic Chrome user agent to avoid bot detection.
@@ -29,16 +30,303 @@ export function launchBrowser(): Promise<Browser> {
   });
 }
 
+/** Optional page behavior for createPage */
+export interface PageOptions {
+  /** Force Tilda reveal animations into their final state on every document */
+  disableAnimations: boolean;
+}
+
+/** Default page options: pages behave as in a regular browser */
+export const DEFAULT_PAGE_OPTIONS: PageOptions = { disableAnimations: false };
+
+/** Stylesheet that shows animated elements in their final, visible state */
+const REVEAL_ANIMATIONS_CSS = `
+.t-animate, [data-animate-style], .t-animate_wait, .t-sbs-anim {
+  opacity: 1 !important;
+  visibility: visible !important;
+  transform: none !important;
+  transition: none !important;
+  animation: none !important;
+}`;
+
+/**
+ * Runs in every new document (before page scripts) to disable reveal animations.
+ * Tilda's `t-animate` elements start hidden and are revealed by an IntersectionObserver
+ * once scrolled into view; some templates only insert their text at that point.
+ * Observers are told every target is visible immediately, and animated elements
+ * are switched to their "started" class as soon as they appear.
+ *
+ * @param css - Stylesheet forcing the final animation state
+ */
+function revealAnimatedContent(css: string): void {
+  const NativeObserver = window.IntersectionObserver;
+  if (NativeObserver) {
+    window.IntersectionObserver = class extends NativeObserver {
+      private readonly revealCallback: IntersectionObserverCallback;
+
+      constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+        super(callback, options);
+        this.revealCallback = callback;
+      }
+
+      observe(target: Element): void {
+        super.observe(target);
+        queueMicrotask(() => {
+          const rect = target.getBoundingClientRect();
+          const entry = {
+            target,
+            isIntersecting: true,
+            intersectionRatio: 1,
+            boundingClientRect: rect,
+            intersectionRect: rect,
+            rootBounds: null,
+            time: performance.now(),
+          };
+          this.revealCallback([entry], this);
+        });
+      }
+    };
+  }
+
+  const start = (root: ParentNode) => {
+    for (const el of root.querySelectorAll(".t-animate")) {
+      el.classList.remove("t-animate_wait");
+      el.classList.add("t-animate_started");
+    }
+  };
+
+  document.addEventListener("DOMContentLoaded", () => {
+    const style = document.createElement("style");
+    style.textContent = css;
+    document.head.appendChild(style);
+    start(document);
+    // Blocks initialized later (lazy records, popups) get the same treatment
+    new MutationObserver(() => start(document)).observe(document.body, { childList: true, subtree: true });
+  });
+}
+
 /**
  * Create a new page with realistic browser settings.
  * Sets user agent and viewport to mimic a real Chrome browser.
  *
  * @param browser - Browser instance to create the page in
+ * @param options - Optional page behavior (e.g. disabling reveal animations)
  * @returns Promise resolving to a configured Page instance
  */
-export async function createPage(browser: Browser): Promise<Page> {
+export async function createPage(browser: Browser, options: PageOptions = DEFAULT_PAGE_OPTIONS): Promise<Page> {
   const page = await browser.newPage();
   await page.setUserAgent(DEFAULT_USER_AGENT);
   await page.setViewport(DEFAULT_VIEWPORT);
+  if (options.disableAnimations) {
+    await page.evaluateOnNewDocument(
+      pageScript(`(${revealAnimatedContent})(${JSON.stringify(REVEAL_ANIMATIONS_CSS)})`),
+    );
+  }
   return page;
 }
+
+/**
+ * Add a <base> element so relative URLs in saved page HTML resolve against the page's original URL.
+ *
+ * @param html - Saved page HTML
+ * @param url - Original page URL
+ * @returns HTML with the <base> element first in <head>
+ */
+export function withBaseUrl(html: string, url: string): string {
+  const base = `<base href="${url.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}">`;
+  const head = html.match(/<head\b[^>]*>/i);
+  if (head?.index === undefined) {
+    return base + html;
+  }
+  const end = head.index + head[0].length;
+  return html.slice(0, end) + base + html.slice(end);
+}
+
+/**
+ * Load saved page HTML with the network offline and page scripts disabled, so the DOM stays as saved.
+ * Stylesheets, images and fonts don't load; extractors still run through page.evaluate.
+ *
+ * @param page - Page to load into
+ * @param html - Saved page HTML
+ * @param url - Original page URL, for resolving relative links and images
+ */
+export async function loadSnapshot(page: Page, html: string, url: string): Promise<void> {
+  await page.setOfflineMode(true);
+  await page.setJavaScriptEnabled(false);
+  await page.setContent(withBaseUrl(html, url), { waitUntil: "domcontentloaded" });
+}
+
+/** Time to let the page render content revealed by expandCollapsibleContent (ms) */
+export const EXPAND_SETTLE_MS = 500;
+
+/**
+ * Expand accordions, tabs and "read more" blocks so their content is in the DOM.
+ * Some Tilda templates only insert collapsed content on first open.
+ * Already-open items are left alone, and links that would navigate away are never clicked.
+ * Tabs are clicked in turn only to load their panels: the last one stays selected, and the
+ * extractors read every panel from the DOM in document order, without its tab label as a heading.
+ *
+ * @param page - Page with the chapter loaded
+ * @param settleMs - Time to wait after clicking for content to render
+ * @returns Number of elements clicked
+ */
+export async function expandCollapsibleContent(page: Page, settleMs: number = EXPAND_SETTLE_MS): Promise<number> {
+  return await page.evaluate(async (settleMs) => {
+    const toggles = document.querySelectorAll<HTMLElement>(
+      [
+        '[class*="__accordion"] [class*="__header"]', // Accordions (t585, t668)
+        '.t397__tab, [role="tab"]', // Tabs
+        '[class*="readmore"], [class*="read-more"]', // "Read more" toggles
+      ].join(", "),
+    );
+
+    let clicked = 0;
+    for (const toggle of toggles) {
+      // Clicking an open accordion item would collapse it
+      const isOpen = toggle.getAttribute("aria-expanded") === "true" || /opened|active/.test(toggle.className);
+      const href = toggle.closest("a")?.getAttribute("href");
+      const navigates = href && !href.startsWith("#") && !href.startsWith("javascript:");
+      if (isOpen || navigates) continue;
+      toggle.click();
+      clicked++;
+    }
+
+    if (clicked > 0) {
+      await new Promise((resolve) => setTimeout(resolve, settleMs));
+    }
+    return clicked;
+  }, settleMs);
+}
+
+/** Scroll-through settings for triggering lazy loading */
+export interface ScrollOptions {
+  /** Distance to scroll per step (px) */
+  step: number;
+  /** Pause after each step for lazy content to load (ms) */
+  pause: number;
+}
+
+/** Upper bound on scroll steps, so infinite-scroll pages can't loop forever */
+const MAX_SCROLL_STEPS = 500;
+
+/**
+ * Scroll to the bottom of the page step by step, then back to the top.
+ * Tilda's lazy loader only swaps in real image URLs (and starts block animations)
+ * when elements scroll into view.
+ *
+ * @param page - Page with the chapter loaded
+ * @param options - Scroll step and pause
+ */
+export async function autoScroll(page: Page, options: ScrollOptions): Promise<void> {
+  await page.evaluate(
+    async (step, pause, maxSteps) => {
+      // No named helpers here: a function passed directly lacks pageScript's __name() shim
+      let position = 0;
+      // Page height can grow as lazy blocks render, so re-read it on every step
+      for (let i = 0; i < maxSteps && position < document.documentElement.scrollHeight - window.innerHeight; i++) {
+        position += step;
+        window.scrollTo(0, position);
+        await new Promise((resolve) => setTimeout(resolve, pause));
+      }
+      window.scrollTo(0, 0);
+      await new Promise((resolve) => setTimeout(resolve, pause));
+    },
+    options.step,
+    options.pause,
+    MAX_SCROLL_STEPS,
+  );
+}
+
+/**
+ * How to decide that a page has finished rendering:
+ * - `delay`: fixed wait (`--wait`)
+ * - `network-idle`: no network requests for a short period
+ * - `selector`: a CSS selector is present
+ * - `records`: Tilda's `#allrecords` container has initialized and is visible
+ * - `text-stable`: page text stops changing between checks
+ */
+export type ReadyStrategy = "delay" | "network-idle" | "selector" | "records" | "text-stable";
+
+/** Readiness settings for waitForReady */
+export interface ReadyOptions {
+  /** Readiness signal to wait for */
+  strategy: ReadyStrategy;
+  /** CSS selector for the `selector` strategy */
+  selector: string | null;
+  /** Hard limit on how long to wait (ms) */
+  timeout: number;
+}
+
+/** Default hard limit on readiness waits (ms) */
+export const DEFAULT_READY_TIMEOUT = 15000;
+
+/** Quiet period that counts as network idle (ms) */
+const NETWORK_IDLE_MS = 500;
+
+/** Interval between text length checks for the text-stable strategy (ms) */
+const TEXT_STABLE_INTERVAL_MS = 500;
+
+/** Consecutive unchanged checks needed before text counts as stable */
+const TEXT_STABLE_CHECKS = 2;
+
+/**
+ * Wait until the page is ready for extraction, using the given strategy.
+ * Never throws on timeout: a page that's slow to settle is still worth extracting.
+ * The `delay` strategy is handled by the caller and returns immediately.
+ *
+ * @param page - Page that has started loading
+ * @param options - Strategy, selector and timeout
+ * @returns True if the page became ready, false if the timeout was hit
+ */
+export async function waitForReady(page: Page, options: ReadyOptions): Promise<boolean> {
+  const { strategy, selector, timeout } = options;
+  try {
+    switch (strategy) {
+      case "delay":
+        return true;
+      case "network-idle":
+        await page.waitForNetworkIdle({ idleTime: NETWORK_IDLE_MS, timeout });
+        return true;
+      case "selector":
+        await page.waitForSelector(selector || "body", { timeout });
+        return true;
+      case "records":
+        await page.waitForFunction(
+          () => {
+            const records = document.getElementById("allrecords");
+            // Tilda keeps the records container transparent until its blocks are initialized
+            return (
+              document.readyState === "complete" &&
+              records !== null &&
+              records.querySelector("[data-record-type]") !== null &&
+              getComputedStyle(records).opacity !== "0"
+            );
+          },
+          { timeout },
+        );
+        return true;
+      case "text-stable":
+        return await page.evaluate(
+          async (timeout, interval, checks) => {
+            const deadline = Date.now() + timeout;
+            let lastLength = -1;
+            let stableCount = 0;
+            while (Date.now() < deadline) {
+              const length = document.body?.innerText.length ?? 0;
+              stableCount = length > 0 && length === lastLength ? stableCount + 1 : 0;
+              if (stableCount >= checks) return true;
+              lastLength = length;
+              await new Promise((resolve) => setTimeout(resolve, interval));
+            }
+            return false;
+          },
+          timeout,
+          TEXT_STABLE_INTERVAL_MS,
+          TEXT_STABLE_CHECKS,
+        );
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") return false;
+    throw error;
+  }
+}
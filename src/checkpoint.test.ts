@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCheckpoint,
+  createCheckpointWriter,
+  readCheckpoint,
+  recordChapter,
+  recordFailure,
+} from "./checkpoint.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+  rename: vi.fn(),
+}));
+
+import * as fs from "node:fs/promises";
+
+const links = [
+  { url: "https://example.com/one", text: "One", sections: [] },
+  { url: "https://example.com/two", text: "Two", sections: [] },
+];
+
+describe("createCheckpoint", () => {
+  it("starts with no chapters done", () => {
+    expect(createCheckpoint("https://example.com/", "toc", links)).toEqual({
+      startUrl: "https://example.com/",
+      mode: "toc",
+      links,
+      chapters: [],
+      failures: [],
+      nextImageIndex: 0,
+      nextUrl: null,
+      previous: null,
+    });
+  });
+
+  it("starts navigation at the start URL", () => {
+    expect(createCheckpoint("https://example.com/", "navigate", []).nextUrl).toBe("https://example.com/");
+  });
+});
+
+describe("recordChapter and recordFailure", () => {
+  it("keeps results sorted by index", () => {
+    const checkpoint = createCheckpoint("https://example.com/", "toc", links);
+    recordChapter(checkpoint, { index: 1, title: "Two", url: links[1].url, filename: "002-two.md" });
+    recordChapter(checkpoint, { index: 0, title: "One", url: links[0].url, filename: "001-one.md" });
+
+    expect(checkpoint.chapters.map((chapter) => chapter.index)).toEqual([0, 1]);
+  });
+
+  it("replaces an earlier failure when the chapter succeeds", () => {
+    const checkpoint = createCheckpoint("https://example.com/", "toc", links);
+    recordFailure(checkpoint, { index: 0, url: links[0].url, message: "timeout" });
+    recordFailure(checkpoint, { index: 0, url: links[0].url, message: "HTTP 500" });
+
+    expect(checkpoint.failures).toEqual([{ index: 0, url: links[0].url, message: "HTTP 500" }]);
+
+    recordChapter(checkpoint, { index: 0, title: "One", url: links[0].url, filename: "001-one.md" });
+
+    expect(checkpoint.failures).toEqual([]);
+    expect(checkpoint.chapters).toHaveLength(1);
+  });
+});
+
+describe("readCheckpoint", () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFile).mockReset();
+  });
+
+  it("returns null when there is no checkpoint", async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(Object.assign(new Error("missing"), { code: "ENOENT" }));
+
+    expect(await readCheckpoint("output/checkpoint.json")).toBeNull();
+  });
+
+  it("reads a saved checkpoint", async () => {
+    const checkpoint = createCheckpoint("https://example.com/", "toc", links);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(checkpoint));
+
+    expect(await readCheckpoint("output/checkpoint.json")).toEqual(checkpoint);
+  });
+
+  it("rejects files that are not checkpoints", async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ startUrl: "https://example.com/", chapters: [] }));
+
+    await expect(readCheckpoint("output/checkpoint.json")).rejects.toThrow("Not a scrape checkpoint");
+  });
+});
+
+describe("createCheckpointWriter", () => {
+  beforeEach(() => {
+    vi.mocked(fs.writeFile).mockReset();
+    vi.mocked(fs.rename).mockReset();
+  });
+
+  it("writes through a temporary file", async () => {
+    const save = createCheckpointWriter("output/checkpoint.json");
+    const checkpoint = createCheckpoint("https://example.com/", "toc", links);
+
+    await save(checkpoint);
+
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      "output/checkpoint.json.tmp",
+      JSON.stringify(checkpoint, null, 2),
+      "utf-8",
+    );
+    expect(fs.rename).toHaveBeenCalledWith("output/checkpoint.json.tmp", "output/checkpoint.json");
+  });
+
+  it("saves one at a time, each with the state it was called with", async () => {
+    const order: string[] = [];
+    vi.mocked(fs.writeFile).mockImplementation(async (_path, content) => {
+      order.push(`write ${JSON.parse(content as string).chapters.length}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    });
+    vi.mocked(fs.rename).mockImplementation(() => {
+      order.push("rename");
+      return Promise.resolve();
+    });
+    const save = createCheckpointWriter("output/checkpoint.json");
+    const checkpoint = createCheckpoint("https://example.com/", "toc", links);
+
+    const first = save(checkpoint);
+    recordChapter(checkpoint, { index: 0, title: "One", url: links[0].url, filename: "001-one.md" });
+    await Promise.all([first, save(checkpoint)]);
+
+    expect(order).toEqual(["write 0", "rename", "write 1", "rename"]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Scrape checkpoints for resuming interrupted runs
+ *
+ * The checkpoint is rewritten after every chapter with the discovered links, the chapters
+ * done so far, failures and the image counter, so `--resume` can pick up where a crash
+ * or Ctrl+C left off.
+ */
+
+import * as fs from "node:fs/promises";
+import type { ScrapeMode } from "./mode.js";
+import type { ChapterMeta } from "./types.js";
+
+/** A chapter that failed to scrape */
+export interface ChapterFailure {
+  /** Zero-based index of the chapter */
+  index: number;
+  /** Chapter URL */
+  url: string;
+  /** Error message */
+  message: string;
+}
+
+/** A chapter link to scrape, as found during discovery */
+export interface CheckpointLink {
+  /** Chapter URL */
+  url: string;
+  /** TOC link text, empty when unknown */
+  text: string;
+  /** Grouping headings above the link on the TOC page */
+  sections: string[];
+  /** Title override from --urls-file */
+  title?: string;
+}
+
+/** Progress of a scrape, stored in output/checkpoint.json */
+export interface Checkpoint {
+  /** Starting URL for the scrape */
+  startUrl: string;
+  /** Scrape mode chosen during discovery */
+  mode: ScrapeMode;
+  /** Chapter links in order; in navigate mode, the pages visited so far */
+  links: CheckpointLink[];
+  /** Completed chapters, by index */
+  chapters: ChapterMeta[];
+  /** Chapters that failed on their last attempt, by index */
+  failures: ChapterFailure[];
+  /** Next unused image index */
+  nextImageIndex: number;
+  /** Navigate mode: page to visit next, or null when navigation is done */
+  nextUrl: string | null;
+  /** Chapters of the book being updated (--update), or null for a full scrape */
+  previous: ChapterMeta[] | null;
+}
+
+/**
+ * Start an empty checkpoint for a freshly discovered chapter list.
+ *
+ * @param startUrl - Starting URL for the scrape
+ * @param mode - Scrape mode
+ * @param links - Chapter links in order (empty in navigate mode)
+ * @returns Checkpoint with no chapters done
+ */
+export function createCheckpoint(startUrl: string, mode: ScrapeMode, links: CheckpointLink[]): Checkpoint {
+  return {
+    startUrl,
+    mode,
+    links,
+    chapters: [],
+    failures: [],
+    nextImageIndex: 0,
+    nextUrl: mode === "navigate" ? startUrl : null,
+    previous: null,
+  };
+}
+
+/**
+ * Record a completed chapter, replacing an earlier failure at the same index.
+ *
+ * @param checkpoint - Checkpoint to update
+ * @param chapter - Chapter metadata
+ */
+export function recordChapter(checkpoint: Checkpoint, chapter: ChapterMeta): void {
+  checkpoint.failures = checkpoint.failures.filter((failure) => failure.index !== chapter.index);
+  checkpoint.chapters = checkpoint.chapters.filter((done) => done.index !== chapter.index);
+  checkpoint.chapters.push(chapter);
+  checkpoint.chapters.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Record a failed chapter, replacing an earlier failure at the same index.
+ *
+ * @param checkpoint - Checkpoint to update
+ * @param failure - Failed chapter
+ */
+export function recordFailure(checkpoint: Checkpoint, failure: ChapterFailure): void {
+  checkpoint.failures = checkpoint.failures.filter((earlier) => earlier.index !== failure.index);
+  checkpoint.failures.push(failure);
+  checkpoint.failures.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Read a checkpoint file.
+ *
+ * @param filePath - Path to the checkpoint
+ * @returns Checkpoint, or null if the file does not exist
+ * @throws Error if the file cannot be read or is not a checkpoint
+ */
+export async function readCheckpoint(filePath: string): Promise<Checkpoint | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  const data = JSON.parse(content) as Partial<Checkpoint> | null;
+  if (
+    typeof data?.startUrl !== "string" ||
+    typeof data.mode !== "string" ||
+    !Array.isArray(data.links) ||
+    !Array.isArray(data.chapters) ||
+    !Array.isArray(data.failures) ||
+    typeof data.nextImageIndex !== "number"
+  ) {
+    throw new Error("Not a scrape checkpoint");
+  }
+  return { ...data, nextUrl: data.nextUrl ?? null, previous: data.previous ?? null } as Checkpoint;
+}
+
+/**
+ * Create a function that saves checkpoints to a file.
+ * Saves run one at a time, so parallel chapters never interleave writes, and each save
+ * goes through a temporary file so an interrupted write leaves the previous checkpoint intact.
+ *
+ * @param filePath - Path to the checkpoint
+ * @returns Save function; resolves once this save (and any before it) is on disk
+ */
+export function createCheckpointWriter(filePath: string): (checkpoint: Checkpoint) => Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  let pending: Promise<void> = Promise.resolve();
+
+  return (checkpoint) => {
+    // Serialized now, so later changes to the checkpoint don't leak into this save
+    const content = JSON.stringify(checkpoint, null, 2);
+    pending = pending
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(tempPath, content, "utf-8");
+        await fs.rename(tempPath, filePath);
+      });
+    return pending;
+  };
+}
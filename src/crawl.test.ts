@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type CrawlOptions, crawlPages, defaultCrawlPrefix, orderCrawledPages } from "./crawl.js";
+
+/** Fake site: each page URL maps to the links on it */
+function site(pages: Record<string, string[]>) {
+  return vi.fn((url: string) => {
+    const links = pages[url];
+    return links ? Promise.resolve(links) : Promise.reject(new Error("404"));
+  });
+}
+
+const unlimited: CrawlOptions = {
+  maxDepth: 10,
+  maxPages: 100,
+  maxVisits: 1000,
+  prefix: "/",
+  skipUrls: [],
+  pattern: null,
+};
+
+describe("defaultCrawlPrefix", () => {
+  it("uses the start URL's directory", () => {
+    expect(defaultCrawlPrefix("https://example.com/book/intro")).toBe("/book/");
+    expect(defaultCrawlPrefix("https://example.com/book/")).toBe("/book/");
+  });
+
+  it("uses the root for root-level pages", () => {
+    expect(defaultCrawlPrefix("https://example.com/page12.html")).toBe("/");
+    expect(defaultCrawlPrefix("https://example.com")).toBe("/");
+  });
+});
+
+describe("crawlPages", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("visits pages breadth-first", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/b", "https://example.com/c"],
+      "https://example.com/b": ["https://example.com/d"],
+      "https://example.com/c": ["https://example.com/a", "https://example.com/b"],
+      "https://example.com/d": [],
+    });
+
+    expect(await crawlPages("https://example.com/a", getLinks, unlimited)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+      "https://example.com/c",
+      "https://example.com/d",
+    ]);
+    expect(getLinks).toHaveBeenCalledTimes(4);
+  });
+
+  it("treats links that differ only by fragment as one page", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/b#top", "https://example.com/b#end", "https://example.com/a#x"],
+      "https://example.com/b": [],
+    });
+
+    expect(await crawlPages("https://example.com/a#intro", getLinks, unlimited)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+  });
+
+  it("stays on the start host, under the prefix, and away from files", async () => {
+    const getLinks = site({
+      "https://example.com/book/": [
+        "https://other.com/book/one",
+        "https://example.com/shop",
+        "https://example.com/book/cover.jpg",
+        "https://example.com/book/one",
+      ],
+      "https://example.com/book/one": [],
+    });
+
+    expect(await crawlPages("https://example.com/book/", getLinks, { ...unlimited, prefix: "/book/" })).toEqual([
+      "https://example.com/book/",
+      "https://example.com/book/one",
+    ]);
+  });
+
+  it("crawls pages on disk within the start file's directory", async () => {
+    const startUrl = "file:///home/me/export/index.html";
+    const getLinks = site({
+      [startUrl]: [
+        "file:///home/me/export/page2.html",
+        "file:///home/me/other.html",
+        "https://example.com/export/page3.html",
+        "file:///home/me/export/images/cover.jpg",
+      ],
+      "file:///home/me/export/page2.html": [],
+    });
+
+    expect(await crawlPages(startUrl, getLinks, { ...unlimited, prefix: defaultCrawlPrefix(startUrl) })).toEqual([
+      startUrl,
+      "file:///home/me/export/page2.html",
+    ]);
+  });
+
+  it("does not follow links beyond the maximum depth", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/b"],
+      "https://example.com/b": ["https://example.com/c"],
+      "https://example.com/c": ["https://example.com/d"],
+    });
+
+    expect(await crawlPages("https://example.com/a", getLinks, { ...unlimited, maxDepth: 1 })).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+  });
+
+  it("stops at the page budget and reports what was left", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/b", "https://example.com/c", "https://example.com/d"],
+      "https://example.com/b": [],
+    });
+
+    expect(await crawlPages("https://example.com/a", getLinks, { ...unlimited, maxPages: 2 })).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+    expect(console.log).toHaveBeenCalledWith("  Stopped at --max-pages 2 (2 more pages found)");
+  });
+
+  it("does not follow skipped links", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/shop", "https://example.com/b"],
+      "https://example.com/b": [],
+      "https://example.com/shop": ["https://example.com/c"],
+    });
+
+    expect(await crawlPages("https://example.com/a", getLinks, { ...unlimited, skipUrls: ["/shop"] })).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+    expect(getLinks).not.toHaveBeenCalledWith("https://example.com/shop");
+  });
+
+  it("counts only pages matching the pattern toward the page budget", async () => {
+    const getLinks = site({
+      "https://example.com/": ["https://example.com/about", "https://example.com/news", "https://example.com/page1"],
+      "https://example.com/about": [],
+      "https://example.com/news": [],
+      "https://example.com/page1": ["https://example.com/page2", "https://example.com/page3"],
+      "https://example.com/page2": [],
+    });
+
+    expect(
+      await crawlPages("https://example.com/", getLinks, { ...unlimited, maxPages: 2, pattern: /\/page\d+$/ }),
+    ).toEqual([
+      "https://example.com/",
+      "https://example.com/about",
+      "https://example.com/news",
+      "https://example.com/page1",
+      "https://example.com/page2",
+    ]);
+    expect(console.log).toHaveBeenCalledWith("  Stopped at --max-pages 2 (1 more pages found)");
+  });
+
+  it("stops at the visit limit when few pages match the pattern", async () => {
+    const getLinks = site({
+      "https://example.com/": ["https://example.com/a", "https://example.com/b", "https://example.com/page1"],
+      "https://example.com/a": [],
+      "https://example.com/b": [],
+    });
+
+    expect(
+      await crawlPages("https://example.com/", getLinks, { ...unlimited, maxVisits: 3, pattern: /\/page\d+$/ }),
+    ).toEqual(["https://example.com/", "https://example.com/a", "https://example.com/b"]);
+    expect(getLinks).toHaveBeenCalledTimes(3);
+    expect(console.log).toHaveBeenCalledWith("  Stopped after visiting 3 pages (1 more pages found)");
+  });
+
+  it("skips pages that fail to load", async () => {
+    const getLinks = site({
+      "https://example.com/a": ["https://example.com/missing", "https://example.com/b"],
+      "https://example.com/b": [],
+    });
+
+    expect(await crawlPages("https://example.com/a", getLinks, unlimited)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+    expect(console.log).toHaveBeenCalledWith("  Skipping https://example.com/missing: 404");
+  });
+});
+
+describe("orderCrawledPages", () => {
+  const urls = ["https://example.com/", "https://example.com/page10", "https://example.com/page2"];
+
+  it("keeps discovery order", () => {
+    expect(orderCrawledPages(urls, "discovery")).toEqual(urls);
+  });
+
+  it("sorts URLs naturally", () => {
+    expect(orderCrawledPages(urls, "url")).toEqual([
+      "https://example.com/",
+      "https://example.com/page2",
+      "https://example.com/page10",
+    ]);
+  });
+});
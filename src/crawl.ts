@@ -0,0 +1,162 @@
+/**
+ * Breadth-first crawl for chapter discovery
+ *
+ * For sites with neither a TOC page nor "Next" buttons: follows same-host links
+ * from the start page, level by level, within a path prefix and page budget.
+ */
+
+import type { Page } from "puppeteer";
+
+/**
+ * How crawled pages are ordered for scraping:
+ * - `discovery`: breadth-first visit order (start page first)
+ * - `url`: URL natural sort (`/page2` before `/page10`)
+ */
+export type CrawlOrder = "discovery" | "url";
+
+/** Accepted values for --crawl-order */
+export const CRAWL_ORDERS: CrawlOrder[] = ["discovery", "url"];
+
+/** Crawl limits and scope */
+export interface CrawlOptions {
+  /** Link distance from the start page beyond which links are not followed */
+  maxDepth: number;
+  /** Maximum number of chapter pages visited (pages matching `pattern`) */
+  maxPages: number;
+  /** Maximum number of pages visited in all, so pages outside `pattern` cannot keep a crawl going */
+  maxVisits: number;
+  /** Path prefix that followed links must start with (e.g. "/book/") */
+  prefix: string;
+  /** Links containing any of these strings are not followed (--skip) */
+  skipUrls: string[];
+  /** Chapter URL pattern (--url-pattern); other pages are visited for their links only */
+  pattern: RegExp | null;
+}
+
+/** Links to files rather than pages */
+const FILE_EXTENSION = /\.(?:jpe?g|png|gif|webp|svg|ico|pdf|zip|rar|mp3|mp4|webm|docx?|xlsx?|pptx?|epub)$/i;
+
+/**
+ * Default crawl scope: the directory of the start URL.
+ *
+ * @param startUrl - Start URL
+ * @returns Path prefix, "/" for root-level pages
+ *
+ * @example
+ * defaultCrawlPrefix('https://a.com/book/intro') // '/book/'
+ * defaultCrawlPrefix('https://a.com/page12.html') // '/'
+ */
+export function defaultCrawlPrefix(startUrl: string): string {
+  const pathname = new URL(startUrl).pathname;
+  return pathname.slice(0, pathname.lastIndexOf("/") + 1);
+}
+
+/**
+ * Collect the links on the loaded page.
+ *
+ * @param page - Page to read links from
+ * @returns Absolute http(s) and file link URLs, in document order
+ */
+export async function extractPageLinks(page: Page): Promise<string[]> {
+  return await page.evaluate(() =>
+    Array.from(document.querySelectorAll<HTMLAnchorElement>("a[href]"))
+      .map((a) => a.href)
+      .filter((href) => href.startsWith("http://") || href.startsWith("https://") || href.startsWith("file:")),
+  );
+}
+
+/**
+ * Crawl breadth-first from the start URL.
+ * Only links on the start URL's host, under the prefix, that look like pages and are not
+ * skipped are followed. Pages that fail to load are reported and left out.
+ *
+ * @param startUrl - First page to visit
+ * @param getLinks - Loads a page and returns the links on it
+ * @param options - Depth, page budget and scope
+ * @returns Visited page URLs (without fragments) in visit order
+ */
+export async function crawlPages(
+  startUrl: string,
+  getLinks: (url: string) => Promise<string[]>,
+  options: CrawlOptions,
+): Promise<string[]> {
+  const baseHost = new URL(startUrl).host;
+  const withoutHash = (url: string) => {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.href;
+  };
+  const inScope = (url: string) => {
+    const { host, pathname } = new URL(url);
+    return (
+      host === baseHost &&
+      pathname.startsWith(options.prefix) &&
+      !FILE_EXTENSION.test(pathname) &&
+      !options.skipUrls.some((skip) => url.includes(skip))
+    );
+  };
+  const isChapter = (url: string) => options.pattern?.test(url) ?? true;
+
+  const start = withoutHash(startUrl);
+  const queue = [{ url: start, depth: 0 }];
+  const seen = new Set([start]);
+  const visited: string[] = [];
+  let chapters = 0;
+
+  let attempts = 0;
+
+  while (chapters < options.maxPages && attempts < options.maxVisits) {
+    const next = queue.shift();
+    if (!next) break;
+    const { url, depth } = next;
+    attempts++;
+    let links: string[];
+    try {
+      links = await getLinks(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`  Skipping ${url}: ${message}`);
+      continue;
+    }
+    visited.push(url);
+    if (isChapter(url)) chapters++;
+    console.log(`  [${visited.length}] depth ${depth}: ${url}`);
+
+    if (depth >= options.maxDepth) continue;
+    for (const link of links.map(withoutHash)) {
+      if (!seen.has(link) && inScope(link)) {
+        seen.add(link);
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+  }
+
+  if (queue.length > 0) {
+    reportCrawlLimit(options, chapters, queue.length);
+  }
+  return visited;
+}
+
+/**
+ * Report which limit stopped a crawl that still had pages to visit.
+ *
+ * @param options - Crawl limits
+ * @param chapters - Chapter pages visited
+ * @param remaining - Pages found but not visited
+ */
+function reportCrawlLimit(options: CrawlOptions, chapters: number, remaining: number): void {
+  const limit =
+    chapters >= options.maxPages ? `at --max-pages ${options.maxPages}` : `after visiting ${options.maxVisits} pages`;
+  console.log(`  Stopped ${limit} (${remaining} more pages found)`);
+}
+
+/**
+ * Order crawled pages for scraping.
+ *
+ * @param urls - Pages in visit order
+ * @param order - Ordering key
+ * @returns New array in the requested order
+ */
+export function orderCrawledPages(urls: string[], order: CrawlOrder): string[] {
+  return order === "url" ? [...urls].sort((a, b) => a.localeCompare(b, "en", { numeric: true })) : [...urls];
+}
@@ -0,0 +1,599 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  accordionExtractor,
+  type BlockExtractor,
+  buildExtractionScript,
+  type ChapterContent,
+  DEFAULT_EXTRACTION_OPTIONS,
+  type ExtractionOptions,
+  galleryExtractor,
+  getBlockExtractor,
+  imageExtractor,
+  quoteExtractor,
+  registerBlockExtractor,
+  resetBlockExtractors,
+  setFallbackExtractor,
+  skipExtractor,
+  snapshotWithLayout,
+  TILDA_SKIP_BLOCK_TYPES,
+  tableExtractor,
+  textExtractor,
+  unregisterBlockExtractor,
+  videoExtractor,
+  zeroBlockExtractor,
+} from "./extractors.js";
+import { htmlToMarkdown } from "./markdown.js";
+
+const CDN = "https://static.tildacdn.com/tild1234";
+
+// Extraction never needs iframe contents; happy-dom would otherwise fetch them over the network
+(
+  window as unknown as { happyDOM: { settings: { disableIframePageLoading: boolean } } }
+).happyDOM.settings.disableIframePageLoading = true;
+
+/**
+ * Run the extraction script against a page body, as page.evaluate would.
+ *
+ * @param body - Body HTML with Tilda records
+ * @param options - Extraction options
+ * @returns Extracted chapter content
+ */
+function extract(body: string, options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS): ChapterContent {
+  document.body.innerHTML = body;
+  return new Function(`return ${buildExtractionScript(options)}`)() as ChapterContent;
+}
+
+describe("block extractor registry", () => {
+  afterEach(() => {
+    resetBlockExtractors();
+  });
+
+  it("skips menu, cover, and form blocks by default", () => {
+    for (const recordType of TILDA_SKIP_BLOCK_TYPES) {
+      expect(getBlockExtractor(recordType)).toBe(skipExtractor);
+    }
+  });
+
+  it("has built-in image and quote extractors", () => {
+    expect(getBlockExtractor("107")).toBe(imageExtractor);
+    expect(getBlockExtractor("205")).toBe(quoteExtractor);
+  });
+
+  it("handles Zero Blocks with the visual-order extractor", () => {
+    expect(getBlockExtractor("396")).toBe(zeroBlockExtractor);
+  });
+
+  it("handles table blocks with the table extractor", () => {
+    expect(getBlockExtractor("431")).toBe(tableExtractor);
+  });
+
+  it("handles galleries and sliders with the gallery extractor", () => {
+    for (const recordType of ["603", "670", "674"]) {
+      expect(getBlockExtractor(recordType)).toBe(galleryExtractor);
+    }
+  });
+
+  it("handles video blocks with the video extractor", () => {
+    expect(getBlockExtractor("223")).toBe(videoExtractor);
+    expect(getBlockExtractor("368")).toBe(videoExtractor);
+  });
+
+  it("handles accordions with the accordion extractor", () => {
+    expect(getBlockExtractor("585")).toBe(accordionExtractor);
+    expect(getBlockExtractor("668")).toBe(accordionExtractor);
+  });
+
+  it("falls back to the text extractor for unknown types", () => {
+    expect(getBlockExtractor("99999")).toBe(textExtractor);
+  });
+
+  it("registers an extractor for multiple types", () => {
+    const custom: BlockExtractor = () => ["<p>custom</p>"];
+    registerBlockExtractor(["1001", "1002"], custom);
+
+    expect(getBlockExtractor("1001")).toBe(custom);
+    expect(getBlockExtractor("1002")).toBe(custom);
+  });
+
+  it("overrides a built-in extractor", () => {
+    const custom: BlockExtractor = () => [];
+    registerBlockExtractor("107", custom);
+
+    expect(getBlockExtractor("107")).toBe(custom);
+  });
+
+  it("unregisters an extractor so the fallback is used", () => {
+    expect(unregisterBlockExtractor("229")).toBe(true);
+    expect(getBlockExtractor("229")).toBe(textExtractor);
+    expect(unregisterBlockExtractor("229")).toBe(false);
+  });
+
+  it("replaces the fallback extractor", () => {
+    const custom: BlockExtractor = () => [];
+    setFallbackExtractor(custom);
+
+    expect(getBlockExtractor("99999")).toBe(custom);
+  });
+
+  it("restores built-ins on reset", () => {
+    registerBlockExtractor("107", () => []);
+    setFallbackExtractor(() => []);
+
+    resetBlockExtractors();
+
+    expect(getBlockExtractor("107")).toBe(imageExtractor);
+    expect(getBlockExtractor("99999")).toBe(textExtractor);
+  });
+});
+
+describe("buildExtractionScript", () => {
+  afterEach(() => {
+    resetBlockExtractors();
+  });
+
+  it("produces a syntactically valid expression", () => {
+    const script = buildExtractionScript();
+    expect(() => new Function(`return ${script}`)).not.toThrow();
+  });
+
+  it("includes registered extractors keyed by record type", () => {
+    registerBlockExtractor("4242", function customMarker() {
+      return ["<p>marker</p>"];
+    });
+
+    const script = buildExtractionScript();
+
+    expect(script).toContain('"4242": function customMarker()');
+    expect(script).toContain('"229":');
+  });
+
+  it("omits unregistered types", () => {
+    unregisterBlockExtractor("205");
+    unregisterBlockExtractor("206");
+
+    expect(buildExtractionScript()).not.toContain('"205":');
+  });
+});
+
+describe("generic content extraction", () => {
+  it("keeps text and images in document order", () => {
+    const { html, imageUrls } = extract(`
+      <div data-record-type="106">
+        <div class="t-text">First paragraph</div>
+        <img src="${CDN}/photo.jpg" alt="Photo">
+        <div class="t-text">Second paragraph</div>
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      "First paragraph",
+      `<img src="${CDN}/photo.jpg" alt="Photo">`,
+      "Second paragraph",
+    ]);
+    expect(imageUrls).toEqual([`${CDN}/photo.jpg`]);
+  });
+
+  it("leaves out text blocks nested in another text block", () => {
+    const { html } = extract(`
+      <div data-record-type="106">
+        <div class="t-descr">Outer <div class="t-text">Inner</div></div>
+      </div>`);
+
+    expect(html).toBe('Outer <div class="t-text">Inner</div>');
+  });
+
+  it("registers images inside a text block without repeating them", () => {
+    const { html, imageUrls } = extract(`
+      <div data-record-type="106">
+        <div class="t-text">Text <img src="${CDN}/inline.png" alt=""></div>
+      </div>`);
+
+    expect(html).toBe(`Text <img src="${CDN}/inline.png" alt="">`);
+    expect(imageUrls).toEqual([`${CDN}/inline.png`]);
+  });
+
+  it("resolves relative images against the page and keeps images on disk", () => {
+    const page = "file:///home/me/export";
+    document.head.innerHTML = `<base href="${page}/page1.html">`;
+    const { html, imageUrls } = extract(`
+      <div data-record-type="106">
+        <img src="images/tild1__photo.jpg" alt="Photo">
+        <div class="t-text">Text <img src="images/tild2__inline.png" alt=""></div>
+        <div class="t-bgimg" data-original="images/tild3__bg.jpg"></div>
+      </div>`);
+    document.head.innerHTML = "";
+
+    expect(html.split("\n\n")).toEqual([
+      `<img src="${page}/images/tild1__photo.jpg" alt="Photo">`,
+      `Text <img src="${page}/images/tild2__inline.png" alt="">`,
+      `<img src="${page}/images/tild3__bg.jpg" alt="">`,
+    ]);
+    expect(imageUrls).toEqual([
+      `${page}/images/tild1__photo.jpg`,
+      `${page}/images/tild2__inline.png`,
+      `${page}/images/tild3__bg.jpg`,
+    ]);
+  });
+
+  it("leaves out relative images of sites on the web", () => {
+    document.head.innerHTML = '<base href="https://example.com/book/page1">';
+    const { html, imageUrls } = extract(`
+      <div data-record-type="106">
+        <img src="/img/logo.png" alt="Logo">
+        <img src="//static.tildacdn.com/tild1234/photo.jpg" alt="Photo">
+      </div>`);
+    document.head.innerHTML = "";
+
+    expect(html).toBe(`<img src="${CDN}/photo.jpg" alt="Photo">`);
+    expect(imageUrls).toEqual([`${CDN}/photo.jpg`]);
+  });
+
+  it("emits captions with their images instead of as paragraphs", () => {
+    const { html } = extract(`
+      <div data-record-type="106">
+        <img src="${CDN}/chart.png" alt="">
+        <div class="t-img-descr t-descr">Figure 1</div>
+      </div>`);
+
+    expect(html).toBe(`<figure><img src="${CDN}/chart.png" alt="Figure 1"><figcaption>Figure 1</figcaption></figure>`);
+  });
+});
+
+/** Resize the viewport the extractors see through window.innerWidth */
+function setViewportWidth(width: number): void {
+  Object.defineProperty(window, "innerWidth", { value: width, configurable: true });
+}
+
+describe("Zero Block extraction", () => {
+  afterEach(() => {
+    setViewportWidth(1024);
+  });
+
+  /** Zero Block element with text and artboard coordinates per breakpoint suffix */
+  function textElem(text: string, fields: Record<string, number>): string {
+    const attrs = Object.entries(fields)
+      .map(([name, value]) => `data-field-${name}-value="${value}"`)
+      .join(" ");
+    return `<div class="tn-elem" data-elem-type="text" ${attrs}><div class="tn-atom">${text}</div></div>`;
+  }
+
+  it("orders elements top to bottom, then left to right", () => {
+    setViewportWidth(1280);
+    const { html, imageUrls } = extract(`
+      <div data-record-type="396">
+        ${textElem("Third", { top: 300, left: 20 })}
+        ${textElem("Second", { top: 100, left: 500 })}
+        <div class="tn-elem" data-elem-type="image" data-field-top-value="200" data-field-left-value="20">
+          <div class="tn-atom"><img data-original="${CDN}/map.png" src="${CDN}/-/empty/map.png" alt="Map"></div>
+        </div>
+        ${textElem("First", { top: 100, left: 20 })}
+        <div class="tn-elem" data-elem-type="button" data-field-top-value="0" data-field-left-value="0">
+          <div class="tn-atom">Buy</div>
+        </div>
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      "<p>First</p>",
+      "<p>Second</p>",
+      `<img src="${CDN}/map.png" alt="Map">`,
+      "<p>Third</p>",
+    ]);
+    expect(imageUrls).toEqual([`${CDN}/map.png`]);
+  });
+
+  it("uses the coordinates of the current breakpoint, inheriting from larger ones", () => {
+    const body = `
+      <div data-record-type="396">
+        ${textElem("A", { top: 100, left: 0, "top-res-640": 500 })}
+        ${textElem("B", { top: 200, left: 0, "top-res-960": 50 })}
+      </div>`;
+
+    setViewportWidth(1280);
+    expect(extract(body).html).toBe("<p>A</p>\n\n<p>B</p>");
+
+    // 700px uses res-640, then res-960, then the default layout
+    setViewportWidth(700);
+    expect(extract(body).html).toBe("<p>B</p>\n\n<p>A</p>");
+
+    // 1000px uses res-960: A keeps its default top
+    setViewportWidth(1000);
+    expect(extract(body).html).toBe("<p>B</p>\n\n<p>A</p>");
+  });
+});
+
+describe("table extraction", () => {
+  it("builds the table from Tilda's CSV data when none is rendered", () => {
+    const { html } = extract(`
+      <div data-record-type="431">
+        <div class="t431__title t-title">Weekly plan</div>
+        <div class="t431__data-part1" style="display: none">Day;Exercise;Sets
+Monday; Squats ;3
+
+Tuesday;Push-ups & dips;4</div>
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      "Weekly plan",
+      "<table><tr><td>Day</td><td>Exercise</td><td>Sets</td></tr>" +
+        "<tr><td>Monday</td><td>Squats</td><td>3</td></tr>" +
+        "<tr><td>Tuesday</td><td>Push-ups &amp; dips</td><td>4</td></tr></table>",
+    ]);
+    expect(htmlToMarkdown(html)).toBe(
+      "Weekly plan\n\n| Day | Exercise | Sets |\n| --- | --- | --- |\n| Monday | Squats | 3 |\n| Tuesday | Push-ups & dips | 4 |",
+    );
+  });
+});
+
+describe("gallery extraction", () => {
+  it("emits each slide once, in slide order, with its caption", () => {
+    // Infinite sliders clone the last slide before the first and the first after the last
+    const slide = (index: number, name: string, caption: string) => `
+      <div class="t-slds__item" data-slide-index="${index}">
+        <div data-img-zoom-url="${CDN}/${name}.jpg"><img src="${CDN}/-/empty/${name}.jpg" alt=""></div>
+        <div class="t-slds__caption">${caption}</div>
+      </div>`;
+    const { html, imageUrls } = extract(`
+      <div data-record-type="603">
+        <div class="t-title">Gallery</div>
+        ${slide(3, "three", "Third")}
+        ${slide(1, "one", "First")}
+        ${slide(2, "two", "Second")}
+        ${slide(3, "three", "Third")}
+        ${slide(1, "one", "First")}
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      "Gallery",
+      `<figure><img src="${CDN}/one.jpg" alt="First"><figcaption>First</figcaption></figure>`,
+      `<figure><img src="${CDN}/two.jpg" alt="Second"><figcaption>Second</figcaption></figure>`,
+      `<figure><img src="${CDN}/three.jpg" alt="Third"><figcaption>Third</figcaption></figure>`,
+    ]);
+    expect(imageUrls).toEqual([`${CDN}/one.jpg`, `${CDN}/two.jpg`, `${CDN}/three.jpg`]);
+  });
+
+  it("keeps document order for slides without an index", () => {
+    const { html } = extract(`
+      <div data-record-type="670">
+        <ul>
+          <li><img data-original="${CDN}/b.jpg" src="${CDN}/-/empty/b.jpg" alt="B"></li>
+          <li><img data-original="${CDN}/a.jpg" src="${CDN}/-/empty/a.jpg" alt="A"></li>
+        </ul>
+      </div>`);
+
+    expect(html).toBe(`<img src="${CDN}/b.jpg" alt="B">\n\n<img src="${CDN}/a.jpg" alt="A">`);
+  });
+});
+
+describe("accordion extraction", () => {
+  /** Accordion item in Tilda's t585/t668 markup */
+  const item = (type: string, title: string, body: string) => `
+    <div class="t${type}__accordion">
+      <div class="t${type}__header"><div class="t${type}__title t-name">${title}</div></div>
+      <div class="t${type}__content" style="display: none">${body}</div>
+    </div>`;
+
+  it("renders each item as a heading followed by its body", () => {
+    const { html } = extract(`
+      <div data-record-type="585">
+        <div class="t-section__title t-title">FAQ</div>
+        ${item("585", "What is a warm-up?", '<div class="t585__text t-descr">Light exercise before training.</div>')}
+        ${item("585", "How long?", `<div class="t-text">Ten minutes.</div><img src="${CDN}/timer.png" alt="Timer">`)}
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      "FAQ",
+      "<h3>What is a warm-up?</h3>",
+      "Light exercise before training.",
+      "<h3>How long?</h3>",
+      "Ten minutes.",
+      `<img src="${CDN}/timer.png" alt="Timer">`,
+    ]);
+    expect(htmlToMarkdown(html)).toBe(
+      "FAQ\n\n### What is a warm-up?\n\nLight exercise before training.\n\n### How long?\n\n" +
+        `Ten minutes. ![Timer](${CDN}/timer.png)`,
+    );
+  });
+
+  it("takes bodies without Tilda text classes as they are", () => {
+    const { html } = extract(`
+      <div data-record-type="668">
+        ${item("668", "Steps", "<ol><li>Stand</li><li>Stretch</li></ol>")}
+        ${item("668", "Empty", "")}
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual(["<h3>Steps</h3>", "<ol><li>Stand</li><li>Stretch</li></ol>", "<h3>Empty</h3>"]);
+  });
+});
+
+describe("video extraction", () => {
+  afterEach(() => {
+    document.head.innerHTML = "";
+  });
+
+  it("turns Tilda's YouTube ID into a watch URL with the block title and cover", () => {
+    const { html, imageUrls } = extract(`
+      <div data-record-type="223">
+        <div class="t223__title t-title">Warm-up routine</div>
+        <div class="t223__descr t-descr">Do this before every session.</div>
+        <div class="t223__video-bg t-bgimg" data-original="${CDN}/cover.jpg"></div>
+        <div class="t223__video-carier" data-content-popup-video-url-youtube="dQw4w9WgXcQ"></div>
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      '<div data-video-url="https://www.youtube.com/watch?v=dQw4w9WgXcQ" data-video-title="Warm-up routine">' +
+        `<img src="${CDN}/cover.jpg" alt="Warm-up routine"><p>Warm-up routine</p></div>`,
+      "Do this before every session.",
+    ]);
+    expect(imageUrls).toEqual([`${CDN}/cover.jpg`]);
+  });
+
+  it("keeps full URLs and turns Vimeo IDs into Vimeo URLs", () => {
+    const full = extract(`
+      <div data-record-type="368">
+        <div data-content-video-url-youtube="https://youtu.be/abc123"></div>
+      </div>`);
+    const vimeo = extract(`
+      <div data-record-type="368">
+        <div data-content-video-url-vimeo="76979871"></div>
+      </div>`);
+
+    expect(full.html).toBe(
+      '<div data-video-url="https://youtu.be/abc123" data-video-title=""><p>https://youtu.be/abc123</p></div>',
+    );
+    expect(vimeo.html).toBe(
+      '<div data-video-url="https://vimeo.com/76979871" data-video-title=""><p>https://vimeo.com/76979871</p></div>',
+    );
+  });
+
+  it("resolves relative and protocol-relative posters against the page", () => {
+    document.head.innerHTML = '<base href="https://example.com/book/lesson1">';
+    const relative = extract(`
+      <div data-record-type="223">
+        <video poster="../media/poster.jpg" title="Demo"><source src="https://example.com/media/demo.mp4"></video>
+      </div>`);
+    const protocolRelative = extract(`
+      <div data-record-type="368">
+        <img src="//static.tildacdn.com/tild1234/cover.jpg" alt="">
+        <iframe src="https://www.youtube.com/embed/abc123" title="Demo"></iframe>
+      </div>`);
+
+    expect(relative.imageUrls).toEqual(["https://example.com/media/poster.jpg"]);
+    expect(relative.html).toContain('<img src="https://example.com/media/poster.jpg" alt="Demo">');
+    expect(relative.html).toContain('data-video-url="https://example.com/media/demo.mp4"');
+    expect(protocolRelative.imageUrls).toEqual([`${CDN}/cover.jpg`]);
+  });
+
+  it("falls back to the text for iframes that are not videos", () => {
+    const { html } = extract(`
+      <div data-record-type="223">
+        <div class="t-text">Find us here</div>
+        <iframe src="https://www.google.com/maps/embed?pb=1"></iframe>
+      </div>`);
+
+    expect(html).toBe("Find us here");
+  });
+});
+
+describe("background image extraction", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reads lazy-load attributes and inline url() styles", () => {
+    const { html, imageUrls } = extract(`
+      <div data-record-type="106">
+        <div class="t-bgimg" data-original="${CDN}/lazy.jpg" title="Lazy"></div>
+        <div style="background-image: url('${CDN}/single.jpg')"></div>
+        <div style="color: red; background-image:url( &quot;${CDN}/double.jpg&quot; )"></div>
+        <div style="background-image: url(${CDN}/bare.jpg);"></div>
+        <div style="background-image: url(https://example.com/other.jpg)"></div>
+      </div>`);
+
+    expect(html.split("\n\n")).toEqual([
+      `<img src="${CDN}/lazy.jpg" alt="Lazy">`,
+      `<img src="${CDN}/single.jpg" alt="">`,
+      `<img src="${CDN}/double.jpg" alt="">`,
+      `<img src="${CDN}/bare.jpg" alt="">`,
+    ]);
+    expect(imageUrls).toHaveLength(4);
+  });
+
+  it("skips covers and full-width backgrounds only when asked to", () => {
+    vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+      return { width: this.classList.contains("wide") ? window.innerWidth : 300 } as DOMRect;
+    });
+    const body = `
+      <div data-record-type="106">
+        <div class="t-cover"><div class="t-bgimg" data-original="${CDN}/cover.jpg"></div></div>
+        <div class="t-bgimg wide" data-original="${CDN}/section.jpg"></div>
+        <div class="t-bgimg" data-original="${CDN}/illustration.jpg"></div>
+      </div>`;
+
+    expect(extract(body).imageUrls).toEqual([`${CDN}/cover.jpg`, `${CDN}/section.jpg`, `${CDN}/illustration.jpg`]);
+    expect(extract(body, { skipDecorativeBackgrounds: true }).imageUrls).toEqual([`${CDN}/illustration.jpg`]);
+  });
+});
+
+describe("recorded layout", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setViewportWidth(1024);
+    document.documentElement.removeAttribute("data-scraper-viewport");
+  });
+
+  /** Rendered layout of the live page: a full-width section and Zero Block text placed by CSS */
+  function mockLiveLayout(): void {
+    setViewportWidth(1280);
+    vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+      const top = Number(this.dataset.liveTop ?? 0);
+      return { top, left: 0, width: this.classList.contains("wide") ? 1280 : 300 } as DOMRect;
+    });
+  }
+
+  const body = `
+    <div data-record-type="106">
+      <div class="t-bgimg wide" data-original="${CDN}/section.jpg"></div>
+      <div class="t-bgimg" data-original="${CDN}/illustration.jpg"></div>
+    </div>
+    <div data-record-type="396">
+      <div class="tn-elem" data-elem-type="text" data-live-top="200"><div class="tn-atom">Second</div></div>
+      <div class="tn-elem" data-elem-type="text" data-live-top="100"><div class="tn-atom">First</div></div>
+    </div>`;
+
+  /**
+   * Load a saved snapshot into the document, as reprocess does
+   *
+   * @param snapshot - Page HTML from snapshotWithLayout
+   */
+  function loadSnapshot(snapshot: string): void {
+    const saved = new DOMParser().parseFromString(snapshot, "text/html");
+    document.documentElement.setAttribute(
+      "data-scraper-viewport",
+      saved.documentElement.getAttribute("data-scraper-viewport") ?? "",
+    );
+    document.body.innerHTML = saved.body.innerHTML;
+  }
+
+  it("records the viewport and the rendered boxes as attributes of the snapshot", () => {
+    mockLiveLayout();
+    document.body.innerHTML = body;
+
+    const saved = new DOMParser().parseFromString(snapshotWithLayout(), "text/html");
+
+    expect(saved.documentElement.getAttribute("data-scraper-viewport")).toBe("1280");
+    const section = saved.querySelector(".wide");
+    expect(section?.getAttribute("data-scraper-width")).toBe("1280");
+    const first = saved.querySelectorAll(".tn-elem")[1];
+    expect(first.getAttribute("data-scraper-top")).toBe("100");
+    expect(first.getAttribute("data-scraper-left")).toBe("0");
+  });
+
+  it("leaves the live page unchanged, so --save-raw doesn't change what is extracted", () => {
+    mockLiveLayout();
+    const before = extract(body);
+
+    snapshotWithLayout();
+
+    expect(document.documentElement.hasAttribute("data-scraper-viewport")).toBe(false);
+    expect(document.querySelector("[data-scraper-top], [data-scraper-left], [data-scraper-width]")).toBeNull();
+    const after = new Function(`return ${buildExtractionScript()}`)() as ChapterContent;
+    expect(after).toEqual(before);
+  });
+
+  it("extracts a saved snapshot as the live page, without stylesheets", () => {
+    const options = { skipDecorativeBackgrounds: true };
+    mockLiveLayout();
+    const live = extract(body, options);
+    const snapshot = snapshotWithLayout();
+
+    // Offline, nothing is laid out and the viewport may differ
+    vi.restoreAllMocks();
+    setViewportWidth(800);
+    loadSnapshot(snapshot);
+    const reprocessed = new Function(`return ${buildExtractionScript(options)}`)() as ChapterContent;
+
+    expect(live.imageUrls).toEqual([`${CDN}/illustration.jpg`]);
+    expect(live.html).toContain("<p>First</p>\n\n<p>Second</p>");
+    expect(reprocessed).toEqual(live);
+  });
+});
@@ -0,0 +1,664 @@
+/**
+ * Tilda block extractors
+ *
+ * Tilda pages are a sequence of records (`[data-record-type]`), one per template block.
+ * Each record type can have its own extractor that turns the record into HTML content parts.
+ * Unregistered types fall back to the generic text extractor.
+ *
+ * Extractors run inside the browser (page.evaluate), so they must be self-contained:
+ * no references to imports or module-level variables, only their arguments.
+ */
+
+import { deduplicateContentParts, pageScript } from "./utils.js";
+
+/** Options controlling what the extractors emit */
+export interface ExtractionOptions {
+  /** Skip full-width background images (covers, section backgrounds) */
+  skipDecorativeBackgrounds: boolean;
+}
+
+/** Default extraction options */
+export const DEFAULT_EXTRACTION_OPTIONS: ExtractionOptions = {
+  skipDecorativeBackgrounds: false,
+};
+
+/** Helpers passed to every extractor inside the browser context */
+export interface ExtractorContext {
+  /** Tilda block type of the record being extracted (e.g., '396') */
+  recordType: string;
+  /** Options for this scrape */
+  options: ExtractionOptions;
+  /** Viewport width the page was rendered at (recorded in saved snapshots, see snapshotWithLayout) */
+  viewportWidth: number;
+  /** Rendered position and width of an element: recorded in saved snapshots, measured otherwise */
+  rect: (el: Element) => { top: number; left: number; width: number };
+  /** Text elements within root (Tilda text/title classes), excluding buttons and menus */
+  textBlocks: (root: Element) => HTMLElement[];
+  /**
+   * Register a Tilda CDN image, or an image on disk for pages loaded from file:// URLs, for download
+   * and return its <img> HTML with the absolute URL (empty string if skipped)
+   */
+  image: (src: string | null, alt?: string | null) => string;
+  /**
+   * Register an image and return it wrapped in a <figure> with caption HTML (plain <img> without caption).
+   * An empty alt is filled from the caption text.
+   */
+  figure: (src: string | null, caption?: string | null, alt?: string | null) => string;
+  /** Find the caption of an image: figcaption, .t-img-descr, or a .t-descr right after the image */
+  caption: (img: Element) => Element | null;
+  /** Register the background image of an element (t-bgimg or inline style) and return its <img> HTML */
+  background: (el: Element) => string;
+  /**
+   * Find a video in el (iframe, <video>, or Tilda video data attributes) and return a placeholder
+   * with its URL, title and poster image (downloaded from any host). Empty string if none.
+   */
+  video: (el: Element) => string;
+  /** Register all Tilda CDN images within root and return their <img>/<figure> HTML */
+  images: (root: Element) => string[];
+  /** Text blocks, images and background images within root, interleaved in document order */
+  content: (root: Element) => string[];
+  /** Run the fallback extractor on an element (useful for delegating part of a record) */
+  fallback: (root: Element) => string[];
+}
+
+/**
+ * Extract content from a single Tilda record.
+ * Runs in the browser, so it must not reference anything outside its arguments.
+ *
+ * @param record - The `[data-record-type]` element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts in reading order
+ */
+export type BlockExtractor = (record: Element, ctx: ExtractorContext) => string[];
+
+/** Title candidates found on a chapter page (null when the page has none) */
+export interface PageTitles {
+  /** Text of the first h1 */
+  h1: string | null;
+  /** og:title meta content */
+  og: string | null;
+  /** Document <title> */
+  title: string | null;
+}
+
+/** Content extracted from a chapter page */
+export interface ChapterContent {
+  /** Page title from first h1 or og:title */
+  title: string;
+  /** All title candidates, for choosing a different title source */
+  titles: PageTitles;
+  /** Deduplicated content HTML */
+  html: string;
+  /** Remote image URLs referenced in the HTML */
+  imageUrls: string[];
+}
+
+/** CSS selector for Tilda text elements */
+export const TILDA_TEXT_SELECTOR =
+  ".t-text, .t-title, .t-descr, .t-text-impact, " +
+  '[class*="t-text"], [class*="t-title"], ' +
+  ".t686__text, .t688__text";
+
+// Tilda block types to skip during content extraction
+// These are navigation, menu, and non-content blocks
+export const TILDA_SKIP_BLOCK_TYPES = [
+  "229", // Header/menu block
+  "228", // Header/menu block (alternate)
+  "702", // Cover/hero block
+  "210", // Form block
+];
+
+/**
+ * Extractor for blocks that carry no book content (menus, covers, forms).
+ *
+ * @returns Always an empty array
+ */
+export function skipExtractor(): string[] {
+  return [];
+}
+
+/**
+ * Generic extractor: Tilda text elements and CDN images in document order.
+ * Used for text blocks and as the fallback for unregistered block types.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function textExtractor(record: Element, ctx: ExtractorContext): string[] {
+  return ctx.content(record);
+}
+
+/**
+ * Image block extractor: the images with their captions, ignoring decorative text overlays.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function imageExtractor(record: Element, ctx: ExtractorContext): string[] {
+  return ctx.images(record);
+}
+
+/**
+ * Quote block extractor: wraps the quote text and its author in a blockquote.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function quoteExtractor(record: Element, ctx: ExtractorContext): string[] {
+  const blocks = ctx.textBlocks(record);
+  if (blocks.length === 0) return ctx.fallback(record);
+  const inner = blocks.map((block) => `<p>${block.innerHTML}</p>`).join("");
+  return [`<blockquote>${inner}</blockquote>`];
+}
+
+/**
+ * Zero Block (t396) extractor.
+ * Zero Block elements are absolutely positioned, so DOM order doesn't match reading order.
+ * Reads each element's artboard coordinates for the current breakpoint and emits
+ * text and images sorted top-to-bottom, left-to-right.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts in visual order
+ */
+export function zeroBlockExtractor(record: Element, ctx: ExtractorContext): string[] {
+  // Tilda breakpoints: the default layout applies from 1200px, each res-N from N up to the next one.
+  // Values missing at a breakpoint are inherited from the next larger one.
+  const width = ctx.viewportWidth;
+  const chain: string[] = [];
+  if (width < 1200) {
+    for (const res of [960, 640, 480, 320]) {
+      chain.unshift(`-res-${res}`);
+      if (res <= width) break;
+    }
+  }
+  chain.push("");
+
+  const field = (el: Element, name: string): number | null => {
+    for (const suffix of chain) {
+      const value = el.getAttribute(`data-field-${name}${suffix}-value`);
+      if (value !== null && value !== "" && !Number.isNaN(parseFloat(value))) return parseFloat(value);
+    }
+    return null;
+  };
+
+  // Buttons and embedded HTML carry no book content
+  const elementHtml = (el: Element): string => {
+    const atom = el.querySelector(".tn-atom");
+    const type = el.getAttribute("data-elem-type");
+    if (!atom) return "";
+    if (type === "text") return atom.textContent?.trim() ? `<p>${atom.innerHTML}</p>` : "";
+    // Shapes are often illustrations drawn as background images
+    if (type === "shape") return ctx.background(atom);
+    if (type === "video") return ctx.video(el);
+    if (type !== "image") return "";
+    const img = atom.querySelector("img") || atom;
+    return ctx.image(img.getAttribute("data-original") || img.getAttribute("src"), img.getAttribute("alt"));
+  };
+
+  const items: { top: number; left: number; html: string }[] = [];
+  for (const el of record.querySelectorAll(".tn-elem")) {
+    const html = elementHtml(el);
+    if (!html) continue;
+
+    // Prefer artboard coordinates; fall back to the rendered position
+    const rect = ctx.rect(el);
+    items.push({ top: field(el, "top") ?? rect.top, left: field(el, "left") ?? rect.left, html });
+  }
+
+  items.sort((a, b) => a.top - b.top || a.left - b.left);
+  return items.map((item) => item.html);
+}
+
+/**
+ * Table block (t431) extractor.
+ * Uses the rendered table when present; otherwise builds one from the CSV data
+ * Tilda embeds in the block (rows separated by newlines, cells by semicolons).
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function tableExtractor(record: Element, ctx: ExtractorContext): string[] {
+  // Title and description around the table (cells may carry text classes too)
+  const parts = ctx
+    .textBlocks(record)
+    .filter((block) => !block.closest("table"))
+    .map((block) => block.innerHTML);
+  const table = record.querySelector("table");
+  if (table) return parts.concat(table.outerHTML);
+
+  const data = record.querySelector('[class*="__data-part"]')?.textContent?.trim();
+  if (!data) return ctx.fallback(record);
+
+  const escapeHtml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const toRow = (line: string) => line.split(";").map((cell) => `<td>${escapeHtml(cell.trim())}</td>`);
+  const rows = data
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => `<tr>${toRow(line).join("")}</tr>`);
+  return parts.concat(`<table>${rows.join("")}</table>`);
+}
+
+/**
+ * Gallery and slider extractor (t603, t670, t674).
+ * Slides are lazy-loaded, so image URLs are read from data-img-zoom-url / data-original
+ * rather than src. Every slide is emitted as a figure with its caption, in slide order.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function galleryExtractor(record: Element, ctx: ExtractorContext): string[] {
+  const slideSelector = '.t-slds__item, [class*="__tile"], li';
+  const captionSelector = '.t-slds__caption, [class*="caption"], [class*="__title"], [class*="__descr"]';
+
+  // Gallery title and description; slide captions are emitted with their images
+  const parts = ctx
+    .textBlocks(record)
+    .filter((block) => !block.closest(slideSelector))
+    .map((block) => block.innerHTML);
+
+  const seen = new Set<string>();
+  const used: Element[] = [];
+  const slides: { order: number; src: string; caption?: string; alt: string | null }[] = [];
+  for (const el of record.querySelectorAll("[data-img-zoom-url], [data-original], img[src]")) {
+    // A slide often has a zoom URL on the wrapper and a placeholder <img> inside: use the outermost one
+    if (used.some((other) => other.contains(el) || el.contains(other))) continue;
+    const src = el.getAttribute("data-img-zoom-url") || el.getAttribute("data-original") || el.getAttribute("src");
+    if (!src) continue;
+    // Infinite sliders clone the first and last slides; a clone still hides its placeholder <img>
+    used.push(el);
+    if (seen.has(src)) continue;
+    seen.add(src);
+
+    // Sliders number their slides; clones make DOM order unreliable
+    const slide = el.closest(slideSelector);
+    const order = parseInt(slide?.getAttribute("data-slide-index") || "", 10);
+    const caption = slide?.querySelector(captionSelector)?.innerHTML;
+    slides.push({ order: Number.isNaN(order) ? slides.length : order, src, caption, alt: el.getAttribute("alt") });
+  }
+
+  slides.sort((a, b) => a.order - b.order);
+  for (const { src, caption, alt } of slides) {
+    const html = ctx.figure(src, caption, alt);
+    if (html) parts.push(html);
+  }
+  return parts;
+}
+
+/**
+ * Video block extractor (t223, t368).
+ * Replaces the player with a placeholder linking to the video, followed by the block's text.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function videoExtractor(record: Element, ctx: ExtractorContext): string[] {
+  const video = ctx.video(record);
+  if (!video) return ctx.fallback(record);
+  // Titles are used as the video title; keep descriptions
+  const descriptions = ctx
+    .textBlocks(record)
+    .filter((block) => !block.matches('[class*="title"]'))
+    .map((block) => block.innerHTML);
+  return [video, ...descriptions];
+}
+
+/**
+ * Accordion block extractor (t585, t668).
+ * Renders each item as a heading followed by its body. Expects collapsed items to have been
+ * expanded beforehand (see expandCollapsibleContent), since some bodies load on first open.
+ *
+ * @param record - The record element
+ * @param ctx - Browser-side helpers
+ * @returns HTML content parts
+ */
+export function accordionExtractor(record: Element, ctx: ExtractorContext): string[] {
+  const prefix = `.t${ctx.recordType}`;
+  const items = Array.from(record.querySelectorAll(`${prefix}__accordion`));
+  if (items.length === 0) return ctx.fallback(record);
+
+  // Block heading above the items
+  const parts = ctx
+    .textBlocks(record)
+    .filter((block) => !items.some((item) => item.contains(block)))
+    .map((block) => block.innerHTML);
+
+  for (const item of items) {
+    const title = (item.querySelector(`${prefix}__title`) || item.querySelector(`${prefix}__header`))?.textContent;
+    const body = item.querySelector(`${prefix}__content`);
+    if (title?.trim()) {
+      const heading = document.createElement("h3");
+      heading.textContent = title.trim();
+      parts.push(heading.outerHTML);
+    }
+    if (!body) continue;
+    const content = ctx.content(body);
+    // Bodies without Tilda text classes: take the HTML as-is
+    if (content.length === 0 && body.textContent?.trim()) content.push(body.innerHTML);
+    parts.push(...content);
+  }
+  return parts;
+}
+
+/** Registered extractors keyed by data-record-type */
+const extractors = new Map<string, BlockExtractor>();
+
+/** Extractor used for record types without a registered extractor */
+let fallbackExtractor: BlockExtractor = textExtractor;
+
+/**
+ * Register an extractor for one or more Tilda block types.
+ * Replaces any extractor previously registered for those types.
+ *
+ * @param recordTypes - data-record-type value(s) (e.g., '396' or ['603', '670'])
+ * @param extractor - Self-contained extractor function
+ *
+ * @example
+ * registerBlockExtractor("1234", (record, ctx) => ctx.textBlocks(record).map((el) => el.outerHTML));
+ */
+export function registerBlockExtractor(recordTypes: string | string[], extractor: BlockExtractor): void {
+  for (const recordType of Array.isArray(recordTypes) ? recordTypes : [recordTypes]) {
+    extractors.set(recordType, extractor);
+  }
+}
+
+/**
+ * Remove the extractor registered for a block type, so the fallback is used instead.
+ *
+ * @param recordType - data-record-type value
+ * @returns True if an extractor was removed
+ */
+export function unregisterBlockExtractor(recordType: string): boolean {
+  return extractors.delete(recordType);
+}
+
+/**
+ * Get the extractor that will be used for a block type.
+ *
+ * @param recordType - data-record-type value
+ * @returns The registered extractor, or the fallback extractor
+ */
+export function getBlockExtractor(recordType: string): BlockExtractor {
+  return extractors.get(recordType) ?? fallbackExtractor;
+}
+
+/**
+ * Replace the fallback extractor used for unregistered block types.
+ *
+ * @param extractor - Self-contained extractor function
+ */
+export function setFallbackExtractor(extractor: BlockExtractor): void {
+  fallbackExtractor = extractor;
+}
+
+/**
+ * Restore the built-in extractors, discarding any user registrations.
+ */
+export function resetBlockExtractors(): void {
+  extractors.clear();
+  fallbackExtractor = textExtractor;
+  registerBlockExtractor(TILDA_SKIP_BLOCK_TYPES, skipExtractor);
+  registerBlockExtractor(["107", "108"], imageExtractor); // Image blocks
+  registerBlockExtractor(["205", "206"], quoteExtractor); // Quote blocks
+  registerBlockExtractor("396", zeroBlockExtractor); // Zero Block
+  registerBlockExtractor("431", tableExtractor); // Table block
+  registerBlockExtractor(["603", "670", "674"], galleryExtractor); // Galleries and sliders
+  registerBlockExtractor(["223", "368"], videoExtractor); // Video blocks
+  registerBlockExtractor(["585", "668"], accordionExtractor); // Accordions
+}
+
+resetBlockExtractors();
+
+/**
+ * Browser-side driver: runs the extractor for every record on the page.
+ * Serialized into the page together with the extractors, so it must be self-contained.
+ */
+function extractRecords(
+  byType: Record<string, BlockExtractor>,
+  fallback: BlockExtractor,
+  dedupe: (parts: string[]) => string[],
+  textSelector: string,
+  options: ExtractionOptions,
+): ChapterContent {
+  // Get page title from first h1 or og:title
+  const titles: PageTitles = {
+    h1: document.querySelector("h1")?.textContent?.replace(/\s+/g, " ").trim() || null,
+    og: document.querySelector('meta[property="og:title"]')?.getAttribute("content")?.trim() || null,
+    title: document.title.trim() || null,
+  };
+  const title = titles.h1 || titles.og || "Untitled";
+
+  const imageUrls: string[] = [];
+  // Relative srcs resolve against the page, so saved sites on disk keep their images
+  const resolveSrc = (src: string) => (URL.canParse(src, document.baseURI) ? new URL(src, document.baseURI).href : "");
+  const isDownloadable = (url: string) => url.includes("tildacdn.com") || url.startsWith("file:");
+  const escapeAttr = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  // Skip navigation buttons and empty blocks
+  const isTextBlock = (block: Element) =>
+    !block.closest(".t-btnflex") && !block.closest('[class*="menu"]') && block.innerHTML.trim() !== "";
+
+  // Snapshots load without stylesheets, so layout recorded when they were saved wins over measuring
+  const viewportWidth = Number(document.documentElement.getAttribute("data-scraper-viewport")) || window.innerWidth;
+  const rect = (el: Element) => {
+    const recorded = ["top", "left", "width"].map((name) => el.getAttribute(`data-scraper-${name}`));
+    if (recorded.every((value) => value !== null)) {
+      const [top, left, width] = recorded.map(Number);
+      return { top, left, width };
+    }
+    const { top, left, width } = el.getBoundingClientRect();
+    return { top, left, width };
+  };
+
+  // Full-width backgrounds (covers, section fills) rarely illustrate the text
+  const isDecorative = (el: Element) => Boolean(el.closest(".t-cover")) || rect(el).width >= viewportWidth * 0.9;
+
+  const ctx: ExtractorContext = {
+    recordType: "",
+    options,
+    viewportWidth,
+    rect,
+    textBlocks: (root) => {
+      const blocks: HTMLElement[] = [];
+      for (const block of root.querySelectorAll<HTMLElement>(textSelector)) {
+        // Nested matches (e.g. .t-text inside .t-descr) are already part of their parent
+        if (isTextBlock(block) && !blocks.some((parent) => parent.contains(block))) blocks.push(block);
+      }
+      return blocks;
+    },
+    image: (src, alt) => {
+      const url = src ? resolveSrc(src) : "";
+      if (!isDownloadable(url)) return "";
+      imageUrls.push(url);
+      return `<img src="${escapeAttr(url)}" alt="${escapeAttr(alt || "")}">`;
+    },
+    figure: (src, caption, alt) => {
+      const captionHtml = caption?.trim() || "";
+      const temp = document.createElement("div");
+      temp.innerHTML = captionHtml;
+      const img = ctx.image(src, alt?.trim() || temp.textContent?.trim());
+      if (!img || !captionHtml) return img;
+      return `<figure>${img}<figcaption>${captionHtml}</figcaption></figure>`;
+    },
+    caption: (img) => {
+      const figure = img.closest("figure");
+      if (figure) return figure.querySelector("figcaption");
+      // Tilda puts the caption right after the image or its wrapper
+      let node: Element | null = img;
+      for (let depth = 0; depth < 3 && node && !node.matches("[data-record-type]"); depth++) {
+        const next: Element | null = node.nextElementSibling;
+        if (next?.matches(".t-img-descr, .t-descr, figcaption") && next.textContent?.trim()) return next;
+        node = node.parentElement;
+      }
+      return null;
+    },
+    background: (el) => {
+      const style = el.getAttribute("style") || "";
+      const src =
+        el.getAttribute("data-original") ||
+        style.match(/background-image\s*:\s*url\(\s*['"]?([^'")]+)['"]?\s*\)/i)?.[1];
+      if (!src || (options.skipDecorativeBackgrounds && isDecorative(el))) return "";
+      return ctx.image(src, el.getAttribute("title") || el.getAttribute("aria-label"));
+    },
+    video: (el) => {
+      const youtube = "data-content-video-url-youtube, data-content-popup-video-url-youtube, data-youtube".split(", ");
+      const vimeo = "data-content-video-url-vimeo, data-content-popup-video-url-vimeo, data-vimeo".split(", ");
+      const selector = ["iframe[src]", "video", ...[...youtube, ...vimeo].map((name) => `[${name}]`)].join(", ");
+      const source = el.matches(selector) ? el : el.querySelector(selector);
+      if (!source) return "";
+
+      // Tilda stores either a full URL or just the video ID
+      const fromId = (names: string[], base: string) => {
+        const value = names.map((name) => source.getAttribute(name)).find(Boolean);
+        if (!value) return "";
+        return /^(https?:)?\/\//.test(value) ? value : `${base}${value}`;
+      };
+      const url =
+        fromId(youtube, "https://www.youtube.com/watch?v=") ||
+        fromId(vimeo, "https://vimeo.com/") ||
+        source.getAttribute("src") ||
+        source.querySelector("source")?.getAttribute("src") ||
+        "";
+      // Other iframes are maps, forms and widgets
+      if (!url || (source.tagName === "IFRAME" && !/youtube|youtu\.be|vimeo/.test(url))) return "";
+
+      const title = (
+        source.getAttribute("title") ||
+        el.querySelector('.t-title, .t-name, [class*="__title"]')?.textContent ||
+        ""
+      ).trim();
+
+      // Poster: <video poster>, the block's cover image, or any image in it
+      const cover = el.querySelector(".t-bgimg, [data-original], img[src]");
+      const posterSrc =
+        source.getAttribute("poster") ||
+        cover?.getAttribute("data-original") ||
+        cover?.getAttribute("src") ||
+        cover?.getAttribute("style")?.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i)?.[1];
+      const poster = posterSrc ? resolveSrc(posterSrc) : "";
+      if (poster) imageUrls.push(poster);
+      const posterHtml = poster ? `<img src="${escapeAttr(poster)}" alt="${escapeAttr(title)}">` : "";
+
+      return (
+        `<div data-video-url="${escapeAttr(url)}" data-video-title="${escapeAttr(title)}">` +
+        `${posterHtml}<p>${escapeAttr(title || url)}</p></div>`
+      );
+    },
+    images: (root) =>
+      Array.from(root.querySelectorAll("img[src]"))
+        .map((img) => ctx.figure(img.getAttribute("src"), ctx.caption(img)?.innerHTML, img.getAttribute("alt")))
+        .filter((html) => html !== ""),
+    content: (root) => {
+      const parts: string[] = [];
+      // Captions are emitted with their images, not as separate paragraphs
+      const captions = new Map<Element, Element>();
+      for (const img of root.querySelectorAll("img[src]")) {
+        const caption = ctx.caption(img);
+        if (caption) captions.set(img, caption);
+      }
+      const isCaption = (el: Element) => [...captions.values()].some((caption) => caption.contains(el));
+      const blocks = ctx.textBlocks(root).filter((block) => !isCaption(block));
+
+      const toHtml = (el: Element): string => {
+        if (el.matches(textSelector)) return blocks.includes(el as HTMLElement) ? el.innerHTML : "";
+        if (el.tagName === "IMG") {
+          return ctx.figure(el.getAttribute("src"), captions.get(el)?.innerHTML, el.getAttribute("alt"));
+        }
+        if (el.tagName === "IFRAME" || el.tagName === "VIDEO") return ctx.video(el);
+        return ctx.background(el);
+      };
+
+      // querySelectorAll returns matches in document order, so text and images stay interleaved
+      const selector = `${textSelector}, img[src], .t-bgimg, [style*="background-image"], iframe[src], video`;
+      for (const el of root.querySelectorAll(selector)) {
+        const insideBlock = blocks.some((block) => block !== el && block.contains(el));
+        if (!insideBlock) {
+          const html = toHtml(el);
+          if (html) parts.push(html);
+        } else if (el.tagName === "IMG") {
+          // Images inside a text block are already present in its HTML but still need downloading
+          ctx.image(el.getAttribute("src"), el.getAttribute("alt"));
+        }
+      }
+      return parts;
+    },
+    fallback: (root) => fallback(root, ctx),
+  };
+
+  // Images inside text blocks are emitted with the block's HTML, so give them the URL registered for download
+  for (const img of document.querySelectorAll("img[src]")) {
+    const url = resolveSrc(img.getAttribute("src") || "");
+    if (img.closest(textSelector) && isDownloadable(url)) img.setAttribute("src", url);
+  }
+
+  // Find the main content area - Tilda uses t-records containers
+  const contentParts: string[] = [];
+  for (const record of document.querySelectorAll("[data-record-type]")) {
+    ctx.recordType = record.getAttribute("data-record-type") || "";
+    const extractor = byType[ctx.recordType] || fallback;
+    contentParts.push(...extractor(record, ctx));
+  }
+
+  // If no structured content found, try getting all text from t-records
+  if (contentParts.length === 0) {
+    const allRecords = document.querySelector("#allrecords");
+    if (allRecords) {
+      // Clone and remove unwanted elements
+      const clone = allRecords.cloneNode(true) as HTMLElement;
+      clone.querySelectorAll('[class*="menu"], .t-btnflex, script, style').forEach((el) => {
+        el.remove();
+      });
+      ctx.images(clone);
+      contentParts.push(clone.innerHTML);
+    }
+  }
+
+  // Deduplicate content blocks (Tilda often has duplicate elements for responsive design)
+  return { title, titles, html: dedupe(contentParts).join("\n\n"), imageUrls };
+}
+
+/**
+ * Serialize the page for `npm run reprocess`, with the rendered layout the extractors measure
+ * recorded as attributes: the viewport width on <html>, and the position and width of
+ * Zero Block elements and background images. The attributes are set on a copy of the document,
+ * so the live page extracts the same with or without a snapshot. Runs in the browser (page.evaluate).
+ *
+ * @returns Page HTML with the layout attributes, as page.content() would return it
+ */
+export function snapshotWithLayout(): string {
+  const copy = document.documentElement.cloneNode(true) as HTMLElement;
+  copy.setAttribute("data-scraper-viewport", String(window.innerWidth));
+  const selector = '.tn-elem, .tn-atom, .t-bgimg, [data-original], [style*="background-image"]';
+  // The copy has the same elements in the same order, so they pair up by index
+  const copies = copy.querySelectorAll(selector);
+  for (const [i, el] of document.querySelectorAll(selector).entries()) {
+    const { top, left, width } = el.getBoundingClientRect();
+    copies[i].setAttribute("data-scraper-top", String(top));
+    copies[i].setAttribute("data-scraper-left", String(left));
+    copies[i].setAttribute("data-scraper-width", String(width));
+  }
+  const doctype = document.doctype ? new XMLSerializer().serializeToString(document.doctype) : "";
+  return doctype + copy.outerHTML;
+}
+
+/**
+ * Build the script that extracts chapter content with the currently registered extractors.
+ * Pass the result to page.evaluate; it evaluates to a ChapterContent object.
+ *
+ * @param options - Extraction options passed to every extractor
+ * @returns JavaScript expression source
+ */
+export function buildExtractionScript(options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS): string {
+  const byType = [...extractors].map(([recordType, extractor]) => `${JSON.stringify(recordType)}: ${extractor}`);
+  return pageScript(
+    `(${extractRecords})({${byType.join(", ")}}, ${fallbackExtractor}, ${deduplicateContentParts}, ` +
+      `${JSON.stringify(TILDA_TEXT_SELECTOR)}, ${JSON.stringify(options)})`,
+  );
+}
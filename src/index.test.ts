@@ -44,6 +44,31 @@ describe("parseArgs", () => {
       delay: 1000,
       skipUrls: [],
       urlPattern: null,
+      skipDecorativeBg: false,
+      scroll: false,
+      scrollStep: 600,
+      scrollPause: 200,
+      ready: null,
+      readySelector: null,
+      readyTimeout: 15000,
+      disableAnimations: false,
+      titleSource: null,
+      mode: null,
+      nextPhrases: [],
+      nextSelector: null,
+      source: null,
+      sitemapOrder: null,
+      urlsFile: null,
+      maxDepth: 3,
+      maxPages: 100,
+      crawlPrefix: null,
+      crawlOrder: null,
+      concurrency: 1,
+      resume: false,
+      update: false,
+      saveRaw: false,
+      record: null,
+      replay: null,
       showHelp: false,
     });
   });
@@ -104,10 +129,50 @@ describe("parseArgs", () => {
       delay: 750,
       skipUrls: ["exclude"],
       urlPattern: "**/*.html",
+      skipDecorativeBg: false,
+      scroll: false,
+      scrollStep: 600,
+      scrollPause: 200,
+      ready: null,
+      readySelector: null,
+      readyTimeout: 15000,
+      disableAnimations: false,
+      titleSource: null,
+      mode: null,
+      nextPhrases: [],
+      nextSelector: null,
+      source: null,
+      sitemapOrder: null,
+      urlsFile: null,
+      maxDepth: 3,
+      maxPages: 100,
+      crawlPrefix: null,
+      crawlOrder: null,
+      concurrency: 1,
+      resume: false,
+      update: false,
+      saveRaw: false,
+      record: null,
+      replay: null,
       showHelp: false,
     });
   });
 
+  it("parses scroll flags", () => {
+    const result = parseArgs(["https://example.com", "--scroll", "--scroll-step", "400", "--scroll-pause", "100"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.scroll).toBe(true);
+    expect(result.scrollStep).toBe(400);
+    expect(result.scrollPause).toBe(100);
+  });
+
+  it("parses readiness flags", () => {
+    const result = parseArgs(["https://example.com", "--ready", "records", "--ready-timeout", "8000"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.ready).toBe("records");
+    expect(result.readyTimeout).toBe(8000);
+  });
+
   it("parses --help flag", () => {
     const result = parseArgs(["--help"]);
     expect(result.showHelp).toBe(true);
@@ -244,6 +309,281 @@ describe("main", () => {
     process.argv = originalArgv;
   });
 
+  it("passes --skip-decorative-bg to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--skip-decorative-bg"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--skip-decorative-bg");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes scroll options to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--scroll", "--scroll-pause", "500"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--scroll --scroll-step 600 --scroll-pause 500");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes readiness options to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = [
+      "node",
+      "index.ts",
+      "https://example.com",
+      "--ready-selector",
+      ".t-text",
+      "--ready-timeout",
+      "9000",
+    ];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain('--ready-selector ".t-text" --ready-timeout 9000');
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --disable-animations to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--disable-animations"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--disable-animations");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --title-source to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--title-source", "h1"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--title-source h1");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --mode to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--mode", "navigate"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--mode navigate");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes sitemap options to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--source", "sitemap", "--sitemap-order", "lastmod"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--source sitemap --sitemap-order lastmod");
+
+    process.argv = originalArgv;
+  });
+
+  it("runs with --urls-file and no start URL", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "--urls-file", "chapters.txt"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toMatch(/^npx tsx src\/scrape\.ts --wait /);
+    expect(scrapeCall).toContain('--urls-file "chapters.txt"');
+    expect(mockConsoleLog).toHaveBeenCalledWith("URLs file: chapters.txt");
+
+    process.argv = originalArgv;
+  });
+
+  it("runs with --update and no start URL", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "--update", "--name", "My Book"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toMatch(/^npx tsx src\/scrape\.ts --wait /);
+    expect(scrapeCall).toContain(" --update");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Updating the book in output/");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes crawl options to scrape command in crawl mode", async () => {
+    const originalArgv = process.argv;
+    process.argv = [
+      "node",
+      "index.ts",
+      "https://example.com/book/",
+      "--mode",
+      "crawl",
+      "--max-pages",
+      "40",
+      "--crawl-prefix",
+      "/book/",
+      "--crawl-order",
+      "url",
+    ];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--mode crawl");
+    expect(scrapeCall).toContain('--max-depth 3 --max-pages 40 --crawl-prefix "/book/" --crawl-order url');
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --concurrency to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--concurrency", "3"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--concurrency 3");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --resume to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--resume"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--resume");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes --save-raw to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--save-raw"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain("--save-raw");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes network archive options to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com", "--replay", "archives/book"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain('--replay "archives/book"');
+    expect(scrapeCall).not.toContain("--record");
+
+    process.argv = originalArgv;
+  });
+
+  it("passes next-link options to scrape command", async () => {
+    const originalArgv = process.argv;
+    process.argv = [
+      "node",
+      "index.ts",
+      "https://example.com",
+      "--next-text",
+      "keep reading",
+      "--next-selector",
+      ".t-btn_next",
+    ];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).toContain('--next-text "keep reading"');
+    expect(scrapeCall).toContain('--next-selector ".t-btn_next"');
+
+    process.argv = originalArgv;
+  });
+
+  it("omits scroll options when scrolling is off", async () => {
+    const originalArgv = process.argv;
+    process.argv = ["node", "index.ts", "https://example.com"];
+
+    vi.mocked(execSync).mockImplementation(() => Buffer.from(""));
+
+    const { main } = await import("./index.js");
+    await main();
+
+    const scrapeCall = vi.mocked(execSync).mock.calls[0][0] as string;
+    expect(scrapeCall).not.toContain("--scroll");
+
+    process.argv = originalArgv;
+  });
+
   it("exits with error when pipeline step fails", async () => {
     const originalArgv = process.argv;
     process.argv = ["node", "index.ts", "https://example.com/book"];
@@ -1,7 +1,8 @@
 /**
  * Run full pipeline: scrape → merge → pdf
  *
- * Usage: npm run all -- <start-url> [options]
+ * Usage: npm run all -- <start-url|path> [options]
+ *        npm run all -- --urls-file <path> [options]
  */
 
 import { execSync } from "node:child_process";
@@ -11,6 +12,7 @@ import {
   getNumberArg,
   getPositionalArg,
   getStringArg,
+  hasFlag,
   hasHelpFlag,
   setupSignalHandlers,
 } from "./utils.js";
@@ -54,6 +56,56 @@ export interface PipelineOptions {
   skipUrls: string[];
   /** Glob pattern to filter URLs */
   urlPattern: string | null;
+  /** Skip full-width background images (covers) */
+  skipDecorativeBg: boolean;
+  /** Scroll through each page to trigger lazy loading */
+  scroll: boolean;
+  /** Scroll distance per step in px */
+  scrollStep: number;
+  /** Pause after each scroll step in ms */
+  scrollPause: number;
+  /** Readiness strategy for each page, or null for the fixed wait */
+  ready: string | null;
+  /** CSS selector for the selector readiness strategy */
+  readySelector: string | null;
+  /** Hard limit on readiness waits in ms */
+  readyTimeout: number;
+  /** Force reveal-animated elements into their final state */
+  disableAnimations: boolean;
+  /** Preferred chapter title source, or null for the scraper default */
+  titleSource: string | null;
+  /** Chapter discovery mode (toc, navigate, crawl, auto), or null for the scraper default */
+  mode: string | null;
+  /** Extra "next" link phrases for navigation mode */
+  nextPhrases: string[];
+  /** CSS selector for the next chapter link */
+  nextSelector: string | null;
+  /** Chapter link source (page, sitemap), or null for the scraper default */
+  source: string | null;
+  /** Sitemap page order (sitemap, natural, lastmod), or null for the scraper default */
+  sitemapOrder: string | null;
+  /** File listing chapter URLs in order, used instead of discovery */
+  urlsFile: string | null;
+  /** Crawl mode: link depth from the start page */
+  maxDepth: number;
+  /** Crawl mode: maximum chapter pages visited */
+  maxPages: number;
+  /** Crawl mode: path prefix for followed links */
+  crawlPrefix: string | null;
+  /** Crawl mode: chapter order (discovery, url), or null for the scraper default */
+  crawlOrder: string | null;
+  /** Number of chapters scraped in parallel */
+  concurrency: number;
+  /** Continue an interrupted scrape from its checkpoint */
+  resume: boolean;
+  /** Re-scrape the book in output/, rewriting only new and changed chapters */
+  update: boolean;
+  /** Save each chapter's page HTML to output/raw/ for npm run reprocess */
+  saveRaw: boolean;
+  /** Directory to record network responses to */
+  record: string | null;
+  /** Directory of recorded network responses to replay */
+  replay: string | null;
   /** Whether to show help and exit */
   showHelp: boolean;
 }
@@ -62,9 +114,12 @@ export interface PipelineOptions {
  * Print usage information for the pipeline command.
  */
 function showUsage(): void {
-  console.log("Usage: npm run all -- <start-url> [options]");
+  console.log("Usage: npm run all -- <start-url|path> [options]");
+  console.log("       npm run all -- --urls-file <path> [options]");
+  console.log("       npm run all -- --update [options]");
   console.log("");
   console.log("Run the full pipeline: scrape → merge → pdf");
+  console.log("The start URL may also be a file:// URL, an HTML file or a directory with an index.html.");
   console.log("");
   console.log("Options:");
   console.log('  --name <title>       Book title for the PDF (default: "Book")');
@@ -72,6 +127,31 @@ function showUsage(): void {
   console.log("  --delay <ms>         Delay between chapters (default: 1000)");
   console.log("  --skip <url>         Skip specific URL (can be used multiple times)");
   console.log("  --url-pattern <p>    Only include URLs matching glob pattern");
+  console.log("  --skip-decorative-bg Skip full-width background images (covers)");
+  console.log("  --scroll             Scroll through each page to trigger lazy loading");
+  console.log("  --scroll-step <px>   Scroll distance per step (default: 600)");
+  console.log("  --scroll-pause <ms>  Pause after each scroll step (default: 200)");
+  console.log("  --ready <strategy>   Readiness signal: delay, network-idle, selector, records, text-stable");
+  console.log("  --ready-selector <s> Wait for a CSS selector (implies --ready selector)");
+  console.log("  --ready-timeout <ms> Hard limit on readiness waits (default: 15000)");
+  console.log("  --disable-animations Show reveal-animated content without waiting for animations");
+  console.log("  --title-source <s>   Chapter title source: toc, h1, og, title (default: toc)");
+  console.log("  --mode <mode>        Chapter discovery: toc, navigate, crawl, auto (default: auto)");
+  console.log('  --next-text <p>      Extra "next" link phrase (can be used multiple times)');
+  console.log("  --next-selector <s>  CSS selector for the next chapter link");
+  console.log("  --source <s>         Chapter source: page, sitemap (default: page)");
+  console.log("  --sitemap-order <o>  Sitemap page order: sitemap, natural, lastmod (default: sitemap)");
+  console.log('  --urls-file <path>   Scrape the URLs listed in a file (one per line, optional "# title")');
+  console.log("  --max-depth <n>      Crawl mode: link depth from the start page (default: 3)");
+  console.log("  --max-pages <n>      Crawl mode: maximum chapter pages visited (default: 100)");
+  console.log("  --crawl-prefix <p>   Crawl mode: only follow links under this path (default: start URL's directory)");
+  console.log("  --crawl-order <o>    Crawl mode: chapter order, discovery or url (default: discovery)");
+  console.log("  --concurrency <n>    TOC and crawl mode: chapters scraped in parallel pages (default: 1)");
+  console.log("  --resume             Continue an interrupted scrape from output/checkpoint.json");
+  console.log("  --update             Re-scrape the book in output/, rewriting only new and changed chapters");
+  console.log("  --save-raw           Save each chapter's rendered HTML to output/raw/ for npm run reprocess");
+  console.log("  --record <dir>       Save every network response to an archive directory");
+  console.log("  --replay <dir>       Serve all requests from an archive recorded with --record (no network)");
   console.log("  --help, -h           Show this help message");
   console.log("");
   console.log("Example:");
@@ -85,7 +165,32 @@ function showUsage(): void {
  * @returns Parsed pipeline options
  */
 /** Flags that take values, used for positional argument detection */
-const PIPELINE_VALUE_FLAGS = ["--name", "--wait", "--delay", "--skip", "--url-pattern"];
+const PIPELINE_VALUE_FLAGS = [
+  "--name",
+  "--wait",
+  "--delay",
+  "--skip",
+  "--url-pattern",
+  "--scroll-step",
+  "--scroll-pause",
+  "--ready",
+  "--ready-selector",
+  "--ready-timeout",
+  "--title-source",
+  "--mode",
+  "--next-text",
+  "--next-selector",
+  "--source",
+  "--sitemap-order",
+  "--urls-file",
+  "--max-depth",
+  "--max-pages",
+  "--crawl-prefix",
+  "--crawl-order",
+  "--concurrency",
+  "--record",
+  "--replay",
+];
 
 export function parseArgs(args: string[] = process.argv.slice(2)): PipelineOptions {
   return {
@@ -95,6 +200,31 @@ export function parseArgs(args: string[] = process.argv.slice(2)): PipelineOptio
     delay: getNumberArg(args, "--delay", 1000),
     skipUrls: getMultiStringArg(args, "--skip"),
     urlPattern: getNullableStringArg(args, "--url-pattern"),
+    skipDecorativeBg: hasFlag(args, "--skip-decorative-bg"),
+    scroll: hasFlag(args, "--scroll"),
+    scrollStep: getNumberArg(args, "--scroll-step", 600),
+    scrollPause: getNumberArg(args, "--scroll-pause", 200),
+    ready: getNullableStringArg(args, "--ready"),
+    readySelector: getNullableStringArg(args, "--ready-selector"),
+    readyTimeout: getNumberArg(args, "--ready-timeout", 15000),
+    disableAnimations: hasFlag(args, "--disable-animations"),
+    titleSource: getNullableStringArg(args, "--title-source"),
+    mode: getNullableStringArg(args, "--mode"),
+    nextPhrases: getMultiStringArg(args, "--next-text"),
+    nextSelector: getNullableStringArg(args, "--next-selector"),
+    source: getNullableStringArg(args, "--source"),
+    sitemapOrder: getNullableStringArg(args, "--sitemap-order"),
+    urlsFile: getNullableStringArg(args, "--urls-file"),
+    maxDepth: getNumberArg(args, "--max-depth", 3),
+    maxPages: getNumberArg(args, "--max-pages", 100),
+    crawlPrefix: getNullableStringArg(args, "--crawl-prefix"),
+    crawlOrder: getNullableStringArg(args, "--crawl-order"),
+    concurrency: getNumberArg(args, "--concurrency", 1),
+    resume: hasFlag(args, "--resume"),
+    update: hasFlag(args, "--update"),
+    saveRaw: hasFlag(args, "--save-raw"),
+    record: getNullableStringArg(args, "--record"),
+    replay: getNullableStringArg(args, "--replay"),
     showHelp: hasHelpFlag(args),
   };
 }
@@ -122,6 +252,137 @@ export function run(command: string, description: string): StepTiming {
   return { step: description, duration };
 }
 
+/**
+ * Build the scrape flags that choose how chapters are found (mode, sources and crawl limits).
+ *
+ * @param options - Parsed pipeline options
+ * @returns Flags with a leading space, or an empty string if none were set
+ */
+function buildDiscoveryArgs(options: PipelineOptions): string {
+  const {
+    mode,
+    nextPhrases,
+    nextSelector,
+    source,
+    sitemapOrder,
+    urlsFile,
+    maxDepth,
+    maxPages,
+    crawlPrefix,
+    crawlOrder,
+  } = options;
+
+  let args = "";
+  if (mode) {
+    args += ` --mode ${mode}`;
+  }
+  for (const phrase of nextPhrases) {
+    args += ` --next-text "${phrase}"`;
+  }
+  if (nextSelector) {
+    args += ` --next-selector "${nextSelector}"`;
+  }
+  if (source) {
+    args += ` --source ${source}`;
+  }
+  if (sitemapOrder) {
+    args += ` --sitemap-order ${sitemapOrder}`;
+  }
+  if (urlsFile) {
+    args += ` --urls-file "${urlsFile}"`;
+  }
+  if (mode === "crawl") {
+    args += ` --max-depth ${maxDepth} --max-pages ${maxPages}`;
+  }
+  if (crawlPrefix) {
+    args += ` --crawl-prefix "${crawlPrefix}"`;
+  }
+  if (crawlOrder) {
+    args += ` --crawl-order ${crawlOrder}`;
+  }
+  return args;
+}
+
+/**
+ * Build the scrape step command, forwarding the scraper options that were set.
+ *
+ * @param options - Parsed pipeline options
+ * @returns Shell command for src/scrape.ts
+ */
+export function buildScrapeCommand(options: PipelineOptions): string {
+  const {
+    startUrl,
+    wait,
+    delay,
+    skipUrls,
+    urlPattern,
+    skipDecorativeBg,
+    scroll,
+    scrollStep,
+    scrollPause,
+    ready,
+    readySelector,
+    readyTimeout,
+    disableAnimations,
+    titleSource,
+    concurrency,
+    resume,
+    update,
+    saveRaw,
+    record,
+    replay,
+  } = options;
+
+  let scrapeCmd = `npx tsx src/scrape.ts${startUrl ? ` "${startUrl}"` : ""} --wait ${wait} --delay ${delay}`;
+  for (const skip of skipUrls) {
+    scrapeCmd += ` --skip "${skip}"`;
+  }
+  if (urlPattern) {
+    scrapeCmd += ` --url-pattern "${urlPattern}"`;
+  }
+  if (skipDecorativeBg) {
+    scrapeCmd += " --skip-decorative-bg";
+  }
+  if (scroll) {
+    scrapeCmd += ` --scroll --scroll-step ${scrollStep} --scroll-pause ${scrollPause}`;
+  }
+  if (ready) {
+    scrapeCmd += ` --ready ${ready}`;
+  }
+  if (readySelector) {
+    scrapeCmd += ` --ready-selector "${readySelector}"`;
+  }
+  if (ready || readySelector) {
+    scrapeCmd += ` --ready-timeout ${readyTimeout}`;
+  }
+  if (disableAnimations) {
+    scrapeCmd += " --disable-animations";
+  }
+  if (titleSource) {
+    scrapeCmd += ` --title-source ${titleSource}`;
+  }
+  scrapeCmd += buildDiscoveryArgs(options);
+  if (concurrency !== 1) {
+    scrapeCmd += ` --concurrency ${concurrency}`;
+  }
+  if (resume) {
+    scrapeCmd += " --resume";
+  }
+  if (update) {
+    scrapeCmd += " --update";
+  }
+  if (saveRaw) {
+    scrapeCmd += " --save-raw";
+  }
+  if (record) {
+    scrapeCmd += ` --record "${record}"`;
+  }
+  if (replay) {
+    scrapeCmd += ` --replay "${replay}"`;
+  }
+  return scrapeCmd;
+}
+
 /**
  * Main entry point for the full pipeline.
  * Runs scrape → merge → pdf steps in sequence with timing.
@@ -129,35 +390,34 @@ export function run(command: string, description: string): StepTiming {
  * @throws Exits with code 1 if no URL provided or any step fails
  */
 export function main(): void {
-  const { startUrl, name, wait, delay, skipUrls, urlPattern, showHelp } = parseArgs();
+  const options = parseArgs();
+  const { startUrl, name, urlsFile, update, showHelp } = options;
 
   if (showHelp) {
     showUsage();
     process.exit(0);
   }
 
-  if (!startUrl) {
+  // An update takes its start URL from output/meta.json
+  if (!startUrl && !urlsFile && !update) {
     showUsage();
     process.exit(1);
   }
 
   console.log("Starting full pipeline...");
-  console.log(`URL: ${startUrl}`);
+  if (startUrl) {
+    console.log(`URL: ${startUrl}`);
+  } else {
+    console.log(urlsFile ? `URLs file: ${urlsFile}` : "Updating the book in output/");
+  }
   console.log(`Book name: ${name}`);
 
   const pipelineStart = Date.now();
   const timings: StepTiming[] = [];
 
   try {
-    // Step 1: Scrape - build command with optional filters
-    let scrapeCmd = `npx tsx src/scrape.ts "${startUrl}" --wait ${wait} --delay ${delay}`;
-    for (const skip of skipUrls) {
-      scrapeCmd += ` --skip "${skip}"`;
-    }
-    if (urlPattern) {
-      scrapeCmd += ` --url-pattern "${urlPattern}"`;
-    }
-    timings.push(run(scrapeCmd, "Scraping chapters"));
+    // Step 1: Scrape
+    timings.push(run(buildScrapeCommand(options), "Scraping chapters"));
 
     // Step 2: Merge
     timings.push(run(`npx tsx src/merge.ts --name "${name}"`, "Merging chapters"));
@@ -0,0 +1,74 @@
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isFileUrl, readLocalFile, resolveStartUrl } from "./local.js";
+
+vi.mock("fs/promises", () => ({
+  stat: vi.fn(),
+  readFile: vi.fn(),
+}));
+
+import * as fs from "node:fs/promises";
+
+const directory = { isDirectory: () => true, isFile: () => false };
+const file = { isDirectory: () => false, isFile: () => true };
+
+describe("isFileUrl", () => {
+  it("detects file URLs", () => {
+    expect(isFileUrl("file:///home/me/export/index.html")).toBe(true);
+    expect(isFileUrl("https://example.com/file:")).toBe(false);
+  });
+});
+
+describe("resolveStartUrl", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns URLs unchanged", async () => {
+    expect(await resolveStartUrl("https://example.com/book")).toBe("https://example.com/book");
+    expect(await resolveStartUrl("file:///home/me/page.html")).toBe("file:///home/me/page.html");
+    expect(await resolveStartUrl("")).toBe("");
+    expect(fs.stat).not.toHaveBeenCalled();
+  });
+
+  it("turns a file path into a file URL", async () => {
+    vi.mocked(fs.stat).mockResolvedValueOnce(file as never);
+
+    expect(await resolveStartUrl("export/page1.html")).toBe(pathToFileURL(path.resolve("export/page1.html")).href);
+  });
+
+  it("opens the index.html of a directory", async () => {
+    vi.mocked(fs.stat)
+      .mockResolvedValueOnce(directory as never)
+      .mockResolvedValueOnce(file as never);
+
+    expect(await resolveStartUrl("export")).toBe(pathToFileURL(path.resolve("export", "index.html")).href);
+    expect(fs.stat).toHaveBeenLastCalledWith(path.resolve("export", "index.html"));
+  });
+
+  it("rejects a directory without index.html", async () => {
+    vi.mocked(fs.stat)
+      .mockResolvedValueOnce(directory as never)
+      .mockRejectedValueOnce(new Error("ENOENT"));
+
+    await expect(resolveStartUrl("export")).rejects.toThrow(
+      "No index.html in export; pass the path of the start page instead",
+    );
+  });
+
+  it("leaves arguments that are neither URLs nor paths for URL validation", async () => {
+    vi.mocked(fs.stat).mockRejectedValueOnce(new Error("ENOENT"));
+
+    expect(await resolveStartUrl("example.com")).toBe("example.com");
+  });
+});
+
+describe("readLocalFile", () => {
+  it("reads the file a URL points to", async () => {
+    vi.mocked(fs.readFile).mockResolvedValueOnce(Buffer.from("data") as never);
+
+    expect(await readLocalFile("file:///home/me/export/images/a%20b.png")).toEqual(Buffer.from("data"));
+    expect(fs.readFile).toHaveBeenCalledWith("/home/me/export/images/a b.png");
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Local sites on disk (file:// start URLs)
+ *
+ * A saved copy of a site, such as an unzipped Tilda export, can be scraped from disk:
+ * the start URL may be a file:// URL, an HTML file path or a directory with an index.html.
+ * Pages load from disk in the browser, and images they reference on disk are copied
+ * instead of downloaded.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+/** Page a directory start path opens, as in Tilda exports */
+export const LOCAL_INDEX_FILE = "index.html";
+
+/** Anything with a scheme followed by // is taken as a URL, not a path */
+const URL_LIKE = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * Check whether a URL points to a file on disk.
+ *
+ * @param url - Absolute URL
+ * @returns True for file: URLs
+ */
+export function isFileUrl(url: string): boolean {
+  return url.toLowerCase().startsWith("file:");
+}
+
+/**
+ * Turn a start URL argument into a URL: paths to existing files and directories become
+ * file:// URLs, with a directory opening its index.html. Anything else is returned as given,
+ * for URL validation to accept or reject.
+ *
+ * @param input - Start URL or path from the command line
+ * @returns Start URL
+ * @throws Error if the path is a directory without an index.html
+ *
+ * @example
+ * await resolveStartUrl('https://example.com/book') // 'https://example.com/book'
+ * await resolveStartUrl('./export') // 'file:///home/me/export/index.html'
+ */
+export async function resolveStartUrl(input: string): Promise<string> {
+  if (!input || URL_LIKE.test(input)) return input;
+
+  const stats = await fs.stat(input).catch(() => null);
+  if (!stats) return input;
+  if (!stats.isDirectory()) return pathToFileURL(path.resolve(input)).href;
+
+  const indexPath = path.resolve(input, LOCAL_INDEX_FILE);
+  const hasIndex = await fs.stat(indexPath).then(
+    (index) => index.isFile(),
+    () => false,
+  );
+  if (!hasIndex) {
+    throw new Error(`No ${LOCAL_INDEX_FILE} in ${input}; pass the path of the start page instead`);
+  }
+  return pathToFileURL(indexPath).href;
+}
+
+/**
+ * Read a file referenced by a file:// URL.
+ *
+ * @param url - file:// URL
+ * @returns File contents
+ * @throws Error if the file cannot be read
+ */
+export function readLocalFile(url: string): Promise<Buffer> {
+  return fs.readFile(fileURLToPath(url));
+}
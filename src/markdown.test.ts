@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { htmlToMarkdown, videoPageUrl } from "./markdown.js";
+
+describe("htmlToMarkdown", () => {
+  it("converts headings and paragraphs", () => {
+    const result = htmlToMarkdown("<h2>Title</h2><p>Some <strong>bold</strong> text</p>");
+    expect(result).toBe("## Title\n\nSome **bold** text");
+  });
+
+  it("removes scripts and styles", () => {
+    const result = htmlToMarkdown("<p>Text</p><script>alert(1)</script><style>p{}</style>");
+    expect(result).toBe("Text");
+  });
+});
+
+describe("table conversion", () => {
+  it("converts a table with thead to a GFM table", () => {
+    const html =
+      "<table><thead><tr><th>Name</th><th>Price</th></tr></thead>" +
+      "<tbody><tr><td>Apple</td><td>1</td></tr><tr><td>Pear</td><td>2</td></tr></tbody></table>";
+
+    expect(htmlToMarkdown(html)).toBe("| Name | Price |\n| --- | --- |\n| Apple | 1 |\n| Pear | 2 |");
+  });
+
+  it("uses the first row as header when there is no thead", () => {
+    const html = "<table><tr><td>A</td><td>B</td></tr><tr><td>1</td><td>2</td></tr></table>";
+
+    expect(htmlToMarkdown(html)).toBe("| A | B |\n| --- | --- |\n| 1 | 2 |");
+  });
+
+  it("pads rows with missing cells", () => {
+    const html = "<table><tr><td>A</td><td>B</td><td>C</td></tr><tr><td>1</td></tr></table>";
+
+    expect(htmlToMarkdown(html)).toContain("| 1 |  |  |");
+  });
+
+  it("escapes pipes in cell content", () => {
+    const html = "<table><tr><th>Expr</th></tr><tr><td>a | b</td></tr></table>";
+
+    expect(htmlToMarkdown(html)).toContain("| a \\| b |");
+  });
+
+  it("keeps inline formatting and joins multi-line cells with <br>", () => {
+    const html = "<table><tr><th>Note</th></tr><tr><td><p><em>first</em></p><p>second</p></td></tr></table>";
+
+    expect(htmlToMarkdown(html)).toContain("| _first_<br>second |");
+  });
+
+  it("keeps surrounding text separated from the table", () => {
+    const html = "<p>Before</p><table><tr><th>A</th></tr><tr><td>1</td></tr></table><p>After</p>";
+
+    expect(htmlToMarkdown(html)).toBe("Before\n\n| A |\n| --- |\n| 1 |\n\nAfter");
+  });
+
+  it("passes tables with merged cells through as HTML", () => {
+    const html = '<table><tr><th colspan="2">Wide</th></tr><tr><td>1</td><td>2</td></tr></table>';
+
+    const result = htmlToMarkdown(html);
+
+    expect(result).toContain('<th colspan="2">Wide</th>');
+    expect(result).not.toContain("---");
+  });
+
+  it("passes tables with row spans through as HTML", () => {
+    const html = '<table><tr><td rowspan="2">Tall</td><td>1</td></tr><tr><td>2</td></tr></table>';
+
+    expect(htmlToMarkdown(html)).toContain('rowspan="2"');
+  });
+
+  it("drops tables without cells", () => {
+    expect(htmlToMarkdown("<p>Text</p><table></table>")).toBe("Text");
+  });
+});
+
+describe("figure conversion", () => {
+  it("keeps captioned images as HTML figures", () => {
+    const html = '<figure><img src="a.jpg" alt="Alt"><figcaption>A <b>bold</b> caption</figcaption></figure>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      '<figure><img src="a.jpg" alt="Alt"><figcaption>A bold caption</figcaption></figure>',
+    );
+  });
+
+  it("escapes caption text and attributes", () => {
+    const html = '<figure><img src="a.jpg" alt="say &quot;hi&quot;"><figcaption>a &lt; b</figcaption></figure>';
+
+    const result = htmlToMarkdown(html);
+
+    expect(result).toContain('alt="say &quot;hi&quot;"');
+    expect(result).toContain("<figcaption>a &lt; b</figcaption>");
+  });
+
+  it("renders consecutive figures in order", () => {
+    const html =
+      '<figure><img src="1.jpg"><figcaption>One</figcaption></figure>' +
+      '<figure><img src="2.jpg"><figcaption>Two</figcaption></figure>';
+
+    const result = htmlToMarkdown(html);
+
+    expect(result.indexOf('src="1.jpg"')).toBeLessThan(result.indexOf('src="2.jpg"'));
+    expect(result).toContain("<figcaption>One</figcaption></figure>\n\n<figure>");
+  });
+
+  it("renders figures without caption as plain images", () => {
+    expect(htmlToMarkdown('<figure><img src="a.jpg"><figcaption> </figcaption></figure>')).toBe("![](a.jpg)");
+  });
+
+  it("renders a stray caption as an italic line", () => {
+    expect(htmlToMarkdown("<figcaption>Source: archive</figcaption>")).toBe("_Source: archive_");
+  });
+});
+
+describe("videoPageUrl", () => {
+  it("converts YouTube embeds to watch URLs", () => {
+    expect(videoPageUrl("https://www.youtube.com/embed/abc123?rel=0")).toBe("https://www.youtube.com/watch?v=abc123");
+    expect(videoPageUrl("//www.youtube-nocookie.com/embed/abc123")).toBe("https://www.youtube.com/watch?v=abc123");
+  });
+
+  it("normalizes youtu.be short links", () => {
+    expect(videoPageUrl("https://youtu.be/abc123")).toBe("https://www.youtube.com/watch?v=abc123");
+  });
+
+  it("keeps YouTube watch URLs", () => {
+    expect(videoPageUrl("https://www.youtube.com/watch?v=abc123")).toBe("https://www.youtube.com/watch?v=abc123");
+  });
+
+  it("converts Vimeo player URLs to video pages", () => {
+    expect(videoPageUrl("https://player.vimeo.com/video/12345?h=abc")).toBe("https://vimeo.com/12345");
+  });
+
+  it("keeps other http URLs as-is", () => {
+    expect(videoPageUrl("https://example.com/video.mp4")).toBe("https://example.com/video.mp4");
+  });
+
+  it("returns null for invalid or non-http URLs", () => {
+    expect(videoPageUrl("")).toBeNull();
+    expect(videoPageUrl("javascript:alert(1)")).toBeNull();
+  });
+});
+
+describe("video conversion", () => {
+  it("replaces YouTube iframes with a titled link", () => {
+    const html = '<p>Intro</p><iframe src="https://www.youtube.com/embed/abc123" title="Lesson"></iframe>';
+
+    expect(htmlToMarkdown(html)).toBe("Intro\n\n**Video:** [Lesson](https://www.youtube.com/watch?v=abc123)");
+  });
+
+  it("uses a generic label for untitled videos", () => {
+    const html = '<iframe src="https://player.vimeo.com/video/42"></iframe>';
+
+    expect(htmlToMarkdown(html)).toBe("**Video:** [Video](https://vimeo.com/42)");
+  });
+
+  it("drops non-video iframes", () => {
+    const html = '<p>Map</p><iframe src="https://maps.google.com/embed?x=1"></iframe>';
+
+    expect(htmlToMarkdown(html)).toBe("Map");
+  });
+
+  it("renders extractor placeholders with a linked thumbnail", () => {
+    const html =
+      '<div data-video-url="https://www.youtube.com/watch?v=abc" data-video-title="Lecture">' +
+      '<img src="https://static.tildacdn.com/tild1/poster.jpg"><p>Lecture</p></div>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      "[![Lecture](https://static.tildacdn.com/tild1/poster.jpg)](https://www.youtube.com/watch?v=abc)\n\n" +
+        "**Video:** [Lecture](https://www.youtube.com/watch?v=abc)",
+    );
+  });
+});
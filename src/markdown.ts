@@ -0,0 +1,183 @@
+/**
+ * HTML to Markdown conversion
+ *
+ * Turndown converter with the extra rules Tilda content needs (tables, etc.).
+ * Extracted from scrape.ts so rules can be tested without a browser.
+ */
+
+import TurndownService from "turndown";
+
+/**
+ * Check whether a table can be represented as a GFM table.
+ * Merged cells and nested tables have no Markdown equivalent.
+ *
+ * @param table - Table element
+ * @returns True if every cell spans exactly one row and column
+ */
+export function isSimpleTable(table: HTMLElement): boolean {
+  if (table.querySelector("table")) return false;
+  for (const cell of table.querySelectorAll("td, th")) {
+    const colspan = parseInt(cell.getAttribute("colspan") || "1", 10);
+    const rowspan = parseInt(cell.getAttribute("rowspan") || "1", 10);
+    if (colspan > 1 || rowspan > 1) return false;
+  }
+  return true;
+}
+
+/**
+ * Convert a table cell to single-line Markdown.
+ * GFM cells can't span lines, so paragraphs are joined with <br>.
+ *
+ * @param cell - td or th element
+ * @returns Cell content safe for a GFM table row
+ */
+function cellToMarkdown(cell: Element): string {
+  return markdownConverter
+    .turndown(cell.innerHTML)
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("<br>")
+    .replace(/\|/g, "\\|");
+}
+
+/**
+ * Convert a simple table to a GFM table.
+ * The first row becomes the header row (GFM requires one).
+ *
+ * @param table - Table element without merged cells
+ * @returns GFM table Markdown, or empty string if the table has no cells
+ */
+export function tableToMarkdown(table: HTMLElement): string {
+  const rows = Array.from(table.querySelectorAll("tr"))
+    .map((row) => Array.from(row.querySelectorAll("td, th")).map(cellToMarkdown))
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const formatRow = (cells: string[]) => {
+    const padded = cells.concat(Array(columns - cells.length).fill(""));
+    return `| ${padded.join(" | ")} |`;
+  };
+
+  const [header, ...body] = rows;
+  const separator = `| ${Array(columns).fill("---").join(" | ")} |`;
+  return [formatRow(header), separator, ...body.map(formatRow)].join("\n");
+}
+
+/**
+ * Turn a video embed or player URL into a URL a reader can open.
+ * YouTube and Vimeo embeds become their watch pages; other http(s) URLs are kept as-is.
+ *
+ * @param src - iframe src, video src, or a URL from Tilda's video data attributes
+ * @returns Watch URL, or null if src is not a usable URL
+ *
+ * @example
+ * videoPageUrl('https://www.youtube.com/embed/abc123?rel=0') // 'https://www.youtube.com/watch?v=abc123'
+ * videoPageUrl('https://player.vimeo.com/video/12345') // 'https://vimeo.com/12345'
+ */
+export function videoPageUrl(src: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(src.startsWith("//") ? `https:${src}` : src);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const host = url.hostname.replace(/^www\./, "");
+  if (host === "youtube.com" || host === "youtube-nocookie.com" || host === "m.youtube.com") {
+    const id = url.pathname.match(/^\/(?:embed|shorts|v)\/([^/?#]+)/)?.[1] || url.searchParams.get("v");
+    return id ? `https://www.youtube.com/watch?v=${id}` : url.href;
+  }
+  if (host === "youtu.be") {
+    const id = url.pathname.slice(1);
+    return id ? `https://www.youtube.com/watch?v=${id}` : url.href;
+  }
+  if (host === "player.vimeo.com") {
+    const id = url.pathname.match(/^\/video\/(\d+)/)?.[1];
+    return id ? `https://vimeo.com/${id}` : url.href;
+  }
+  return url.href;
+}
+
+/**
+ * Render a video placeholder: thumbnail linked to the video (when present) and a titled link.
+ *
+ * @param url - Video watch URL
+ * @param title - Video title (empty for untitled videos)
+ * @param thumbnail - Thumbnail image URL, if any
+ * @returns Markdown block
+ */
+function videoPlaceholder(url: string, title: string, thumbnail: string | null): string {
+  const label = title || "Video";
+  const image = thumbnail ? `[![${label}](${thumbnail})](${url})\n\n` : "";
+  return `\n\n${image}**Video:** [${label}](${url})\n\n`;
+}
+
+/** Shared Turndown instance configured for Tilda content */
+export const markdownConverter = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+});
+
+// Remove script/style elements from conversion
+markdownConverter.remove(["script", "style", "noscript"]);
+
+// Video embeds: iframes inside text, and placeholders emitted by the video extractor
+// (<div data-video-url data-video-title> with an optional thumbnail <img>)
+markdownConverter.addRule("video", {
+  filter: (node) => node.nodeName === "IFRAME" || node.hasAttribute("data-video-url"),
+  replacement: (_content, node) => {
+    const url = videoPageUrl(node.getAttribute("data-video-url") || node.getAttribute("src") || "");
+    // Non-video iframes (maps, forms, widgets) have no useful representation
+    if (!url || (node.nodeName === "IFRAME" && !/^https:\/\/(www\.youtube\.com|vimeo\.com)\//.test(url))) return "";
+    const title = (node.getAttribute("data-video-title") || node.getAttribute("title") || "").trim();
+    const thumbnail = node.querySelector("img")?.getAttribute("src") || null;
+    return videoPlaceholder(url, title, thumbnail);
+  },
+});
+
+// Tables: GFM when possible, raw HTML for merged cells (the PDF renderer passes HTML through)
+markdownConverter.addRule("table", {
+  filter: "table",
+  replacement: (_content, node) => {
+    const markdown = isSimpleTable(node) ? tableToMarkdown(node) : node.outerHTML;
+    return markdown ? `\n\n${markdown}\n\n` : "";
+  },
+});
+
+// Captioned images stay HTML figures so the PDF stylesheet can style them
+markdownConverter.addRule("figure", {
+  filter: (node) =>
+    node.nodeName === "FIGURE" &&
+    Boolean(node.querySelector("img") && node.querySelector("figcaption")?.textContent?.trim()),
+  replacement: (_content, node) => {
+    const img = node.querySelector("img");
+    const caption = node.querySelector("figcaption")?.textContent?.trim() || "";
+    const attr = (value: string) => value.replace(/"/g, "&quot;");
+    const src = attr(img?.getAttribute("src") || "");
+    const alt = attr(img?.getAttribute("alt") || "");
+    const text = caption.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    return `\n\n<figure><img src="${src}" alt="${alt}"><figcaption>${text}</figcaption></figure>\n\n`;
+  },
+});
+
+// Stray captions (outside a figure): italic line
+markdownConverter.addRule("figcaption", {
+  filter: "figcaption",
+  replacement: (content) => {
+    const caption = content.trim();
+    return caption ? `\n\n_${caption}_\n\n` : "";
+  },
+});
+
+/**
+ * Convert extracted chapter HTML to Markdown.
+ *
+ * @param html - Chapter content HTML
+ * @returns Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+  return markdownConverter.turndown(html);
+}
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { type ChapterMeta, fixImagePaths, generateTocEntry, parseArgs } from "./merge.js";
+import { type ChapterMeta, fixImagePaths, generateToc, generateTocEntry, getPartStart, parseArgs } from "./merge.js";
 
 // Mock fs/promises
 vi.mock("fs/promises", () => ({
@@ -125,6 +125,73 @@ describe("generateTocEntry", () => {
   });
 });
 
+describe("generateToc", () => {
+  const chapter = (index: number, title: string, sections?: string[]): ChapterMeta => ({
+    index,
+    title,
+    url: `https://example.com/${index}`,
+    filename: `${index}.md`,
+    ...(sections && { sections }),
+  });
+
+  it("produces a flat list for chapters without sections", () => {
+    expect(generateToc([chapter(0, "One"), chapter(1, "Two")])).toEqual(["1. [One](#one)", "2. [Two](#two)"]);
+  });
+
+  it("nests chapters under parts linked to their title pages", () => {
+    const toc = generateToc([
+      chapter(0, "Bones", ["Part I"]),
+      chapter(1, "Joints", ["Part I"]),
+      chapter(2, "Muscles", ["Part II"]),
+    ]);
+
+    expect(toc).toEqual([
+      "- [**Part I**](#part-i)",
+      "  1. [Bones](#bones)",
+      "  2. [Joints](#joints)",
+      "- [**Part II**](#part-ii)",
+      "  3. [Muscles](#muscles)",
+    ]);
+  });
+
+  it("nests sections within parts as bold labels", () => {
+    const toc = generateToc([
+      chapter(0, "Skull", ["Part I", "Head"]),
+      chapter(1, "Spine", ["Part I", "Trunk"]),
+      chapter(2, "Ribs", ["Part I", "Trunk"]),
+    ]);
+
+    expect(toc).toEqual([
+      "- [**Part I**](#part-i)",
+      "  - **Head**",
+      "    1. [Skull](#skull)",
+      "  - **Trunk**",
+      "    2. [Spine](#spine)",
+      "    3. [Ribs](#ribs)",
+    ]);
+  });
+});
+
+describe("getPartStart", () => {
+  const chapter = (sections?: string[]): ChapterMeta => ({
+    index: 0,
+    title: "Ch",
+    url: "https://example.com",
+    filename: "001.md",
+    ...(sections && { sections }),
+  });
+
+  it("returns the part for the first chapter of a part", () => {
+    expect(getPartStart(chapter(["Part I"]), undefined)).toBe("Part I");
+    expect(getPartStart(chapter(["Part II"]), chapter(["Part I"]))).toBe("Part II");
+  });
+
+  it("returns null within a part or without parts", () => {
+    expect(getPartStart(chapter(["Part I", "B"]), chapter(["Part I", "A"]))).toBeNull();
+    expect(getPartStart(chapter(), undefined)).toBeNull();
+  });
+});
+
 describe("main", () => {
   const mockMeta = {
     scrapedAt: "2024-01-15T10:00:00.000Z",
@@ -306,6 +373,32 @@ describe("main", () => {
     expect(content).toContain("2. [Chapter 2](#chapter-2)");
   });
 
+  it("adds part title pages before the first chapter of each part", async () => {
+    const { main } = await import("./merge.js");
+    const partMeta = {
+      ...mockMeta,
+      chapters: mockMeta.chapters.map((chapter, i) => ({ ...chapter, sections: [`Part ${i + 1}`] })),
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockImplementation((path) => {
+      if (String(path).includes("meta.json")) return Promise.resolve(JSON.stringify(partMeta));
+      if (String(path).includes("001-chapter-1.md")) return Promise.resolve(mockChapter1);
+      if (String(path).includes("002-chapter-2.md")) return Promise.resolve(mockChapter2);
+      return Promise.reject(new Error("File not found"));
+    });
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+    vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as Awaited<ReturnType<typeof fs.stat>>);
+
+    await main();
+
+    const content = vi.mocked(fs.writeFile).mock.calls[0][1] as string;
+
+    expect(content).toContain("- [**Part 1**](#part-1)\n  1. [Chapter 1](#chapter-1)");
+    expect(content.indexOf("# Part 2\n")).toBeGreaterThan(content.indexOf("# Chapter 1"));
+    expect(content.indexOf("# Part 2\n")).toBeLessThan(content.indexOf("# Chapter 2"));
+  });
+
   it("shows help and exits with code 0 when --help flag is provided", async () => {
     const originalArgv = process.argv;
     process.argv = ["node", "merge.ts", "--help"];
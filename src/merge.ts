@@ -70,6 +70,62 @@ export function generateTocEntry(chapter: ChapterMeta): string {
   return `${chapter.index + 1}. [${chapter.title}](#${anchor})`;
 }
 
+/**
+ * Count how many leading sections two chapters share.
+ *
+ * @param a - Sections of one chapter
+ * @param b - Sections of another chapter
+ * @returns Length of the common prefix
+ */
+function sharedSectionCount(a: string[], b: string[]): number {
+  let count = 0;
+  while (count < a.length && count < b.length && a[count] === b[count]) count++;
+  return count;
+}
+
+/**
+ * Generate the table of contents, nested by the chapters' TOC sections.
+ * Parts (top-level sections) link to their title pages; deeper sections are bold labels.
+ * Chapters without sections produce the same flat list as generateTocEntry.
+ *
+ * @param chapters - Chapter metadata in book order
+ * @returns TOC lines (Markdown nested lists)
+ *
+ * @example
+ * generateToc([{ index: 0, title: 'Bones', sections: ['Part I'], ... }])
+ * // ['- [**Part I**](#part-i)', '  1. [Bones](#bones)']
+ */
+export function generateToc(chapters: ChapterMeta[]): string[] {
+  const lines: string[] = [];
+  let previous: string[] = [];
+
+  for (const chapter of chapters) {
+    const sections = chapter.sections ?? [];
+    for (let depth = sharedSectionCount(previous, sections); depth < sections.length; depth++) {
+      const title = sections[depth];
+      const label = depth === 0 ? `[**${title}**](#${generateAnchor(title)})` : `**${title}**`;
+      lines.push(`${"  ".repeat(depth)}- ${label}`);
+    }
+    lines.push(`${"  ".repeat(sections.length)}${generateTocEntry(chapter)}`);
+    previous = sections;
+  }
+
+  return lines;
+}
+
+/**
+ * Get the part a chapter starts, if it is the first chapter of a new part.
+ *
+ * @param chapter - Chapter to check
+ * @param previous - Chapter before it, or undefined for the first chapter
+ * @returns Part title, or null if the chapter continues the current part (or has none)
+ */
+export function getPartStart(chapter: ChapterMeta, previous: ChapterMeta | undefined): string | null {
+  const part = chapter.sections?.[0];
+  if (!part) return null;
+  return previous?.sections?.[0] === part ? null : part;
+}
+
 /**
  * Main entry point for the merge command.
  * Reads chapter files and metadata, then creates a merged book.md with TOC.
@@ -122,13 +178,17 @@ export async function main(): Promise<void> {
 
   // Add table of contents
   parts.push("## Table of Contents\n");
-  for (const chapter of meta.chapters) {
-    parts.push(generateTocEntry(chapter));
-  }
+  parts.push(...generateToc(meta.chapters));
   parts.push("\n---\n");
 
-  // Read and concatenate each chapter
-  for (const chapter of meta.chapters) {
+  // Read and concatenate each chapter, with a title page before each part
+  for (const [i, chapter] of meta.chapters.entries()) {
+    const partTitle = getPartStart(chapter, meta.chapters[i - 1]);
+    if (partTitle) {
+      parts.push(`# ${partTitle}\n`);
+      parts.push("\n---\n");
+    }
+
     const chapterPath = path.join(CHAPTERS_DIR, chapter.filename);
 
     try {
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import { extractPageSignals, type PageSignals, scoreTocPage, sharedPathPrefix } from "./mode.js";
+
+const urls = (count: number, prefix = "https://example.com/book/ch") =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+
+describe("sharedPathPrefix", () => {
+  it("uses the directory for nested pages", () => {
+    expect(sharedPathPrefix(urls(3))).toEqual({ prefix: "/book/", ratio: 1 });
+  });
+
+  it("uses the name stem for root-level pages", () => {
+    const result = sharedPathPrefix(["https://a.com/page1.html", "https://a.com/page22.html", "https://a.com/about"]);
+    expect(result.prefix).toBe("/page");
+    expect(result.ratio).toBeCloseTo(2 / 3);
+  });
+
+  it("ignores single-letter stems", () => {
+    expect(sharedPathPrefix(["https://a.com/1", "https://a.com/2"])).toEqual({ prefix: "", ratio: 0 });
+  });
+
+  it("handles an empty list", () => {
+    expect(sharedPathPrefix([])).toEqual({ prefix: "", ratio: 0 });
+  });
+});
+
+describe("scoreTocPage", () => {
+  const signals = (overrides: Partial<PageSignals> = {}): PageSignals => ({
+    textLength: 1000,
+    linkTextLength: 400,
+    listedLinks: 0,
+    hasNextLink: false,
+    ...overrides,
+  });
+
+  it("detects a short TOC with dense, listed links", () => {
+    const decision = scoreTocPage(urls(12), signals({ listedLinks: 12 }));
+
+    expect(decision.mode).toBe("toc");
+    expect(decision.score).toBe(5);
+    expect(decision.reasons).toEqual([
+      "+1 12 chapter links",
+      "+2 links are 40% of page text",
+      "+1 100% of links share /book/",
+      "+1 100% of links are in lists or grids",
+    ]);
+  });
+
+  it("treats a long chapter with inline links and a next button as a chapter page", () => {
+    const decision = scoreTocPage(
+      urls(25, "https://example.com/topic-"),
+      signals({ textLength: 20000, linkTextLength: 500, hasNextLink: true }),
+    );
+
+    expect(decision.mode).toBe("navigate");
+    expect(decision.reasons).toContain("-2 links are 3% of page text");
+    expect(decision.reasons).toContain("-2 page has a next-chapter link");
+  });
+
+  it("penalizes pages with very few links", () => {
+    const decision = scoreTocPage(urls(2), signals());
+
+    expect(decision.reasons[0]).toBe("-2 only 2 chapter link(s)");
+  });
+
+  it("handles pages without text", () => {
+    const decision = scoreTocPage(urls(20), signals({ textLength: 0, linkTextLength: 0 }));
+
+    expect(decision.reasons).toContain("-2 links are 0% of page text");
+  });
+});
+
+describe("extractPageSignals", () => {
+  it("returns the density counts measured in the page", async () => {
+    const counts = { textLength: 100, linkTextLength: 40, listedLinks: 3 };
+    const mockPage = { evaluate: vi.fn().mockResolvedValue(counts) };
+
+    const result = await extractPageSignals(mockPage as unknown as Parameters<typeof extractPageSignals>[0], urls(3));
+
+    expect(result).toEqual(counts);
+    expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), urls(3));
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Scrape mode detection
+ *
+ * Decides whether the start page is a table of contents (scrape its links)
+ * or a chapter page (follow "Next" links), by scoring page signals.
+ */
+
+import type { Page } from "puppeteer";
+
+/**
+ * How chapters are discovered: from TOC links, by following "Next" links,
+ * or by crawling same-host links (crawl is never auto-detected)
+ */
+export type ScrapeMode = "toc" | "navigate" | "crawl";
+
+/** Value of --mode: a fixed mode, or auto-detection */
+export type ModeOption = ScrapeMode | "auto";
+
+/** Accepted values for --mode */
+export const MODE_OPTIONS: ModeOption[] = ["auto", "toc", "navigate", "crawl"];
+
+/** Start page measurements used for scoring */
+export interface PageSignals {
+  /** Characters of visible text on the page */
+  textLength: number;
+  /** Characters of text inside the chapter links */
+  linkTextLength: number;
+  /** Chapter links inside lists or grid items */
+  listedLinks: number;
+  /** Whether the page has a "Next" chapter link */
+  hasNextLink: boolean;
+}
+
+/** Mode decision with the reasons behind it */
+export interface ModeDecision {
+  /** Selected mode */
+  mode: ScrapeMode;
+  /** Total score (higher favors TOC), or null when the mode was not scored */
+  score: number | null;
+  /** Human-readable reasons, one per scoring signal */
+  reasons: string[];
+}
+
+/** Minimum score for the start page to be treated as a TOC */
+const TOC_SCORE_THRESHOLD = 2;
+
+/**
+ * Measure text and link density on the start page.
+ *
+ * @param page - Page with the start URL loaded
+ * @param urls - Chapter link URLs found on the page
+ * @returns Density signals (next-link detection is left to the caller)
+ */
+export async function extractPageSignals(page: Page, urls: string[]): Promise<Omit<PageSignals, "hasNextLink">> {
+  return await page.evaluate((urls) => {
+    const chapterUrls = new Set(urls);
+    const root = document.getElementById("allrecords") || document.body;
+    const textLength = (root.textContent || "").replace(/\s+/g, " ").trim().length;
+
+    let linkTextLength = 0;
+    let listedLinks = 0;
+    for (const a of root.querySelectorAll<HTMLAnchorElement>("a[href]")) {
+      if (!chapterUrls.has(a.href)) continue;
+      linkTextLength += (a.textContent || "").replace(/\s+/g, " ").trim().length;
+      // List items, and the repeated card/column wrappers Tilda uses for link grids
+      if (a.closest('li, [class*="__item"], [class*="__card"], [class*="__col"], .t-col')) listedLinks++;
+    }
+    return { textLength, linkTextLength, listedLinks };
+  }, urls);
+}
+
+/**
+ * Find the path prefix shared by the most links.
+ * Links in a subdirectory share the directory (`/book/`); root-level pages share
+ * the non-numeric start of their name (`/page` for `/page12.html`).
+ *
+ * @param urls - Chapter link URLs
+ * @returns Most common prefix and the fraction of links that have it
+ *
+ * @example
+ * sharedPathPrefix(['https://a.com/book/one', 'https://a.com/book/two']) // { prefix: '/book/', ratio: 1 }
+ */
+export function sharedPathPrefix(urls: string[]): { prefix: string; ratio: number } {
+  const counts = new Map<string, number>();
+  for (const url of urls) {
+    const pathname = new URL(url).pathname;
+    const dir = pathname.slice(0, pathname.lastIndexOf("/") + 1);
+    const prefix = dir !== "/" ? dir : `/${pathname.slice(1).match(/^\D*/)?.[0] ?? ""}`;
+    counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+  }
+
+  let best = { prefix: "", ratio: 0 };
+  for (const [prefix, count] of counts) {
+    // A bare "/" or a one-letter stem says nothing about the links being a series
+    if (prefix.length > 2 && count / urls.length > best.ratio) {
+      best = { prefix, ratio: count / urls.length };
+    }
+  }
+  return best;
+}
+
+/**
+ * Score how much the start page looks like a table of contents.
+ * TOC pages have many links that make up much of the page text, share a path prefix,
+ * and sit in lists or grids; chapter pages have long text and a "Next" button.
+ *
+ * @param urls - Chapter link URLs found on the page
+ * @param signals - Page measurements
+ * @returns Selected mode, score, and the reason for each score change
+ */
+export function scoreTocPage(urls: string[], signals: PageSignals): ModeDecision {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(`${points > 0 ? "+" : ""}${points} ${reason}`);
+  };
+
+  const count = urls.length;
+  if (count >= 20) add(2, `${count} chapter links`);
+  else if (count >= 8) add(1, `${count} chapter links`);
+  else if (count < 3) add(-2, `only ${count} chapter link(s)`);
+
+  const density = signals.textLength > 0 ? signals.linkTextLength / signals.textLength : 0;
+  const densityText = `links are ${Math.round(density * 100)}% of page text`;
+  if (density >= 0.3) add(2, densityText);
+  else if (density >= 0.15) add(1, densityText);
+  else if (density < 0.05) add(-2, densityText);
+
+  const { prefix, ratio } = sharedPathPrefix(urls);
+  if (ratio >= 0.8) add(1, `${Math.round(ratio * 100)}% of links share ${prefix}`);
+
+  const listedRatio = count > 0 ? signals.listedLinks / count : 0;
+  if (listedRatio >= 0.6) add(1, `${Math.round(listedRatio * 100)}% of links are in lists or grids`);
+
+  if (signals.hasNextLink) add(-2, "page has a next-chapter link");
+
+  return { mode: score >= TOC_SCORE_THRESHOLD ? "toc" : "navigate", score, reasons };
+}
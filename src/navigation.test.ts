@@ -0,0 +1,167 @@
+import { Window } from "happy-dom";
+import type { Page } from "puppeteer";
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_NEXT_LINK_OPTIONS,
+  DEFAULT_NEXT_PHRASES,
+  findNextLink,
+  isValidSelector,
+  type NextLinkOptions,
+} from "./navigation.js";
+
+/** Minimal stand-in for the DOM elements the next-link script reads */
+interface FakeLink {
+  tag?: "A" | "LINK";
+  href: string;
+  text?: string;
+  ariaLabel?: string;
+  rel?: string;
+  className?: string;
+  /** Styled as a button (matches the button selectors) */
+  button?: boolean;
+  /** Inside a menu or header */
+  menu?: boolean;
+  /** Matches the user's --next-selector */
+  selected?: boolean;
+}
+
+function fakeElement(link: FakeLink) {
+  const attributes: Record<string, string | undefined> = {
+    href: link.href,
+    "aria-label": link.ariaLabel,
+    rel: link.rel,
+  };
+  const element = {
+    tagName: link.tag ?? "A",
+    className: link.className ?? "",
+    textContent: link.text ?? "",
+    getAttribute: (name: string) => attributes[name] ?? null,
+    matches: () => Boolean(link.button),
+    closest: (selector: string): unknown => {
+      if (selector === "a[href]") return element;
+      if (selector.includes(".t228")) return link.menu ? {} : null;
+      return null;
+    },
+    querySelector: () => null,
+  };
+  return element;
+}
+
+/**
+ * Run the script findNextLink sends to the page against fake links,
+ * with the current page at https://example.com/one.
+ */
+async function runInPage(links: FakeLink[], options?: NextLinkOptions) {
+  const elements = links.map((link) => ({ link, element: fakeElement(link) }));
+  const document = {
+    querySelectorAll: (selector: string) =>
+      elements
+        .filter(({ link }) =>
+          selector.includes('rel~="next"') ? link.rel === "next" : (link.tag ?? "A") === "A" && link.href,
+        )
+        .map(({ element }) => element),
+    querySelector: () => elements.find(({ link }) => link.selected)?.element ?? null,
+  };
+  const window = { location: { href: "https://example.com/one" } };
+  const page = {
+    evaluate: vi.fn(async (script: string) => new Function("window", "document", `return ${script}`)(window, document)),
+  };
+  return await findNextLink(page as unknown as Page, "https://example.com", options);
+}
+
+describe("findNextLink", () => {
+  it("sends a self-contained script with the options as arguments", async () => {
+    const page = { evaluate: vi.fn().mockResolvedValue(null) };
+
+    await findNextLink(page as unknown as Page, "https://example.com", { phrases: ["Onward"], selector: ".next" });
+
+    const script = page.evaluate.mock.calls[0][0] as string;
+    expect(script).toContain("const __name = (target) => target;");
+    expect(script).toContain('("https://example.com", ["onward"], ".next")');
+  });
+
+  it("returns null when the page has no next link", async () => {
+    expect(await runInPage([{ href: "/about", text: "About" }])).toBeNull();
+  });
+
+  it("matches phrases in several languages", async () => {
+    expect((await runInPage([{ href: "/two", text: "Следующая глава" }]))?.url).toBe("https://example.com/two");
+    expect((await runInPage([{ href: "/two", text: "Наступний розділ" }]))?.url).toBe("https://example.com/two");
+    expect((await runInPage([{ href: "/two", ariaLabel: "Capítulo siguiente" }]))?.url).toBe("https://example.com/two");
+  });
+
+  it("prefers a button near the end over menu and inline links", async () => {
+    const result = await runInPage([
+      { href: "/menu-next", text: "Next", menu: true },
+      { href: "/inline", text: "next time we will see" },
+      { href: "/two", text: "Далее", button: true },
+    ]);
+
+    expect(result).toEqual({ url: "https://example.com/two", reason: 'button "Далее" matches "далее"' });
+  });
+
+  it("honors rel=next before phrase matches", async () => {
+    const result = await runInPage([
+      { href: "/button", text: "Next", button: true },
+      { tag: "LINK", href: "/two", rel: "next" },
+    ]);
+
+    expect(result).toEqual({ url: "https://example.com/two", reason: '<link rel="next">' });
+  });
+
+  it("uses the user's selector first", async () => {
+    const result = await runInPage(
+      [
+        { href: "/three", rel: "next" },
+        { href: "/two", text: "Go", selected: true },
+      ],
+      { ...DEFAULT_NEXT_LINK_OPTIONS, selector: ".go" },
+    );
+
+    expect(result).toEqual({ url: "https://example.com/two", reason: "matched selector .go" });
+  });
+
+  it("falls back to arrow-only links", async () => {
+    const result = await runInPage([
+      { href: "/zero", text: "←" },
+      { href: "/two", text: " → " },
+    ]);
+
+    expect(result?.url).toBe("https://example.com/two");
+  });
+
+  it("ignores previous links, other hosts, and the current page", async () => {
+    const result = await runInPage([
+      { href: "/zero", text: "Previous" },
+      { href: "https://other.com/next", text: "Next" },
+      { href: "/one#top", text: "Next" },
+      { href: "#", text: "Next" },
+    ]);
+
+    expect(result).toBeNull();
+  });
+
+  it("matches custom phrases", async () => {
+    const links = [{ href: "/two", text: "Keep reading" }];
+
+    expect(await runInPage(links)).toBeNull();
+    expect((await runInPage(links, { phrases: [...DEFAULT_NEXT_PHRASES, "Keep Reading"], selector: null }))?.url).toBe(
+      "https://example.com/two",
+    );
+  });
+});
+
+describe("isValidSelector", () => {
+  it("checks the selector with the page's CSS parser", async () => {
+    const window = new Window();
+    const page = {
+      evaluate: vi.fn(async (fn: (css: string) => boolean, css: string) =>
+        window.eval(`(${fn})(${JSON.stringify(css)})`),
+      ),
+    };
+
+    expect(await isValidSelector(page as unknown as Page, ".t-btn_next, a[rel~='next']")).toBe(true);
+    expect(await isValidSelector(page as unknown as Page, "a[href")).toBe(false);
+    await window.happyDOM.close();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * "Next chapter" link detection for navigation mode
+ *
+ * Tries explicit signals first (user selector, rel="next"), then buttons and links
+ * whose text matches a "next" phrase in one of several languages, then arrow-only buttons.
+ */
+
+import type { Page } from "puppeteer";
+import { pageScript } from "./utils.js";
+
+/**
+ * Lowercase "next" phrases matched against link text, aria-label and title.
+ * Stems are used where languages inflect the word (следующ-ая/-ий, наступн-а/-ий, nächst-e/-er).
+ */
+export const DEFAULT_NEXT_PHRASES = [
+  "next",
+  "continue",
+  "следующ", // Russian
+  "далее",
+  "дальше",
+  "вперед",
+  "вперёд",
+  "наступн", // Ukrainian
+  "далі",
+  "weiter", // German
+  "nächst",
+  "siguiente", // Spanish
+  "próxim", // Spanish, Portuguese
+  "suivant", // French
+  "avanti", // Italian
+  "successiv",
+  "dalej", // Polish
+  "następn",
+];
+
+/** How to find the next chapter link */
+export interface NextLinkOptions {
+  /** Phrases that mark a "next" link (lowercase, matched as substrings) */
+  phrases: string[];
+  /** CSS selector for the next link, tried before anything else */
+  selector: string | null;
+}
+
+/** Default next-link options: built-in phrases, no selector */
+export const DEFAULT_NEXT_LINK_OPTIONS: NextLinkOptions = { phrases: DEFAULT_NEXT_PHRASES, selector: null };
+
+/** The chosen next link and why it was chosen */
+export interface NextLink {
+  /** Absolute URL of the next chapter */
+  url: string;
+  /** Which rule matched, for logging */
+  reason: string;
+}
+
+/**
+ * Locate the next chapter link in the current page.
+ * Serialized into the page, so it must be self-contained.
+ *
+ * Rules in priority order:
+ * 1. User selector
+ * 2. `<link rel="next">` and `<a rel="next">`
+ * 3. Button-styled links with a "next" phrase (Tilda button blocks), last one on the page
+ * 4. Other links with a "next" phrase, last one on the page
+ * 5. Arrow-only icon links (→, ›, »), last one on the page
+ *
+ * Links in menus and headers, links back to the current page, and links to other hosts are ignored.
+ */
+function locateNextLink(baseUrl: string, phrases: string[], selector: string | null): NextLink | null {
+  const baseHost = new URL(baseUrl).host;
+  const currentUrl = window.location.href.split("#")[0];
+  const arrowOnly = /^[→⟶➔➜➝›»>]+$/;
+  const previousHint = /prev|назад|попередн|zurück|anterior|précédent|wstecz|←|‹|«/;
+
+  const toUrl = (href: string | null): string | null => {
+    if (!href || href.startsWith("#") || href.startsWith("javascript:") || href.startsWith("mailto:")) return null;
+    try {
+      const url = new URL(href, window.location.href);
+      url.hash = "";
+      return url.host === baseHost && url.href !== currentUrl ? url.href : null;
+    } catch {
+      return null;
+    }
+  };
+  const describe = (el: Element): string =>
+    [el.textContent, el.getAttribute("aria-label"), el.getAttribute("title")]
+      .map((value) => (value || "").replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join(" ")
+      .slice(0, 60);
+
+  // Explicit signals: the user's selector, then rel="next"
+  const explicit = (): NextLink | null => {
+    if (selector) {
+      const el = document.querySelector(selector);
+      const link = el?.closest("a[href]") || el?.querySelector("a[href]");
+      const url = toUrl(link?.getAttribute("href") ?? null);
+      if (url) return { url, reason: `matched selector ${selector}` };
+    }
+    for (const el of document.querySelectorAll('link[rel~="next"], a[rel~="next"]')) {
+      const url = toUrl(el.getAttribute("href"));
+      if (url) return { url, reason: `${el.tagName === "LINK" ? "<link" : "<a"} rel="next">` };
+    }
+    return null;
+  };
+
+  // Classify a content link as a "next" button, phrase link, or arrow icon
+  const classify = (a: Element, url: string): { kind: "button" | "phrase" | "arrow"; link: NextLink } | null => {
+    const label = describe(a);
+    const text = label.toLowerCase();
+    if (previousHint.test(text)) return null;
+    const matched = phrases.find((p) => text.includes(p));
+    if (matched) {
+      const isButton = a.matches('.t-btn, [class*="__btn"], [class*="button"]') || a.closest(".t-btnwrapper");
+      return isButton
+        ? { kind: "button", link: { url, reason: `button "${label}" matches "${matched}"` } }
+        : { kind: "phrase", link: { url, reason: `link "${label}" matches "${matched}"` } };
+    }
+    const isArrow = arrowOnly.test(text.replace(/\s/g, "")) || (!text && /next|arrow[_-]?right/i.test(a.className));
+    return isArrow ? { kind: "arrow", link: { url, reason: `arrow button "${label || a.className}"` } } : null;
+  };
+
+  const found = explicit();
+  if (found) return found;
+
+  // Keep the last match of each kind: next buttons sit at the end of the content
+  const last: Partial<Record<"button" | "phrase" | "arrow", NextLink>> = {};
+  for (const a of document.querySelectorAll("a[href]")) {
+    // Menus and headers repeat on every page and often contain "next" items of their own
+    if (a.closest('.t228, .t229, .t450, nav, header, [class*="menu"]')) continue;
+    const url = toUrl(a.getAttribute("href"));
+    const match = url ? classify(a, url) : null;
+    if (match) last[match.kind] = match.link;
+  }
+
+  return last.button || last.phrase || last.arrow || null;
+}
+
+/**
+ * Find the next chapter link on the loaded page.
+ *
+ * @param page - Page with a chapter loaded
+ * @param baseUrl - Base URL of the site (links to other hosts are ignored)
+ * @param options - Phrases and optional selector
+ * @returns Next link with the reason it was chosen, or null if there is none
+ */
+export async function findNextLink(
+  page: Page,
+  baseUrl: string,
+  options: NextLinkOptions = DEFAULT_NEXT_LINK_OPTIONS,
+): Promise<NextLink | null> {
+  const args = [baseUrl, options.phrases.map((p) => p.toLowerCase()), options.selector].map((arg) =>
+    JSON.stringify(arg),
+  );
+  return (await page.evaluate(pageScript(`(${locateNextLink})(${args.join(", ")})`))) as NextLink | null;
+}
+
+/**
+ * Check that a CSS selector (e.g. --next-selector) parses, so a typo is reported before the scrape
+ * instead of failing the first querySelector. Node has no selector parser, so the page checks it.
+ *
+ * @param page - Any open page
+ * @param selector - CSS selector to check
+ * @returns True if the selector is valid
+ */
+export async function isValidSelector(page: Page, selector: string): Promise<boolean> {
+  return await page.evaluate((css) => {
+    try {
+      document.createDocumentFragment().querySelector(css);
+      return true;
+    } catch {
+      return false;
+    }
+  }, selector);
+}
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseArgs, reprocessChapter } from "./reprocess.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+vi.mock("./browser.js", () => ({
+  launchBrowser: vi.fn(),
+  createPage: vi.fn(),
+  loadSnapshot: vi.fn().mockResolvedValue(undefined),
+  DEFAULT_READY_TIMEOUT: 15000,
+}));
+
+import * as fs from "node:fs/promises";
+import { createPage, launchBrowser, loadSnapshot } from "./browser.js";
+
+const imageUrl = "https://static.tildacdn.com/tild1/photo.jpg";
+const meta = {
+  scrapedAt: "2024-01-15T10:00:00.000Z",
+  startUrl: "https://example.com/book",
+  chapters: [
+    {
+      index: 0,
+      title: "Chapter 1",
+      url: "https://example.com/ch1",
+      filename: "001-chapter-1.md",
+      images: { [imageUrl]: "img-0003.jpg" },
+    },
+    { index: 1, title: "Chapter 2", url: "https://example.com/ch2", filename: "002-chapter-2.md" },
+  ],
+};
+
+/** Serves meta.json and the snapshots passed in */
+function files(snapshots: Record<string, string>) {
+  vi.mocked(fs.readFile).mockImplementation((filePath) => {
+    const name = String(filePath);
+    if (name === "output/meta.json") return Promise.resolve(JSON.stringify(meta));
+    if (name in snapshots) return Promise.resolve(snapshots[name]);
+    return Promise.reject(new Error("ENOENT"));
+  });
+}
+
+function extracted(html: string, imageUrls: string[] = []) {
+  return { title: "Page", titles: { h1: "Page", og: null, title: null }, html, imageUrls };
+}
+
+describe("parseArgs", () => {
+  it("returns defaults", () => {
+    expect(parseArgs([])).toEqual({ skipDecorativeBg: false, showHelp: false });
+  });
+
+  it("parses flags", () => {
+    expect(parseArgs(["--skip-decorative-bg", "--help"])).toEqual({ skipDecorativeBg: true, showHelp: true });
+  });
+});
+
+describe("reprocessChapter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rebuilds the chapter from its snapshot with local images", async () => {
+    files({ "output/raw/001-chapter-1.html": "<html>saved</html>" });
+    const page = {
+      evaluate: vi.fn().mockResolvedValue(extracted(`<p>Text</p><img src="${imageUrl}">`, [imageUrl])),
+    };
+
+    const missing = await reprocessChapter(page as never, meta.chapters[0], { skipDecorativeBackgrounds: false });
+
+    expect(missing).toBe(0);
+    expect(loadSnapshot).toHaveBeenCalledWith(page, "<html>saved</html>", "https://example.com/ch1");
+    const [filePath, content] = vi.mocked(fs.writeFile).mock.calls[0];
+    expect(filePath).toBe("output/chapters/001-chapter-1.md");
+    expect(content).toMatch(/^# Chapter 1\n/);
+    expect(content).toContain("../images/img-0003.jpg");
+    expect(content).not.toContain(imageUrl);
+  });
+
+  it("counts images that were not downloaded during the scrape", async () => {
+    files({ "output/raw/002-chapter-2.html": "<html>saved</html>" });
+    const page = { evaluate: vi.fn().mockResolvedValue(extracted("<p>Text</p>", [imageUrl, imageUrl])) };
+
+    expect(await reprocessChapter(page as never, meta.chapters[1], { skipDecorativeBackgrounds: false })).toBe(1);
+  });
+
+  it("returns null without a snapshot", async () => {
+    files({});
+    const page = { evaluate: vi.fn() };
+
+    expect(await reprocessChapter(page as never, meta.chapters[1], { skipDecorativeBackgrounds: false })).toBeNull();
+    expect(page.evaluate).not.toHaveBeenCalled();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe("main", () => {
+  let mockExit: ReturnType<typeof vi.spyOn>;
+  let mockConsoleLog: ReturnType<typeof vi.spyOn>;
+  let mockConsoleError: ReturnType<typeof vi.spyOn>;
+  let originalArgv: string[];
+  const mockBrowser = { close: vi.fn().mockResolvedValue(undefined) };
+  const mockPage = { evaluate: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    originalArgv = process.argv;
+    process.argv = ["node", "reprocess.ts"];
+    mockExit = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+    mockConsoleLog = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    mockConsoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.mocked(launchBrowser).mockResolvedValue(mockBrowser as never);
+    vi.mocked(createPage).mockResolvedValue(mockPage as never);
+    mockPage.evaluate.mockResolvedValue(extracted("<p>Text</p>"));
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    mockExit.mockRestore();
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+  });
+
+  it("reprocesses chapters with snapshots and skips the rest", async () => {
+    files({ "output/raw/001-chapter-1.html": "<html>saved</html>" });
+
+    const { main } = await import("./reprocess.js");
+    await main();
+
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    expect(mockConsoleLog).toHaveBeenCalledWith("  [2] No snapshot, skipped: 002-chapter-2.md");
+    expect(mockConsoleLog).toHaveBeenCalledWith("\nDone! Reprocessed 1 chapters.");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Skipped 1 chapter(s) without a snapshot.");
+    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it("passes extraction options to the extraction script", async () => {
+    process.argv = ["node", "reprocess.ts", "--skip-decorative-bg"];
+    files({ "output/raw/001-chapter-1.html": "<html>saved</html>" });
+
+    const { main } = await import("./reprocess.js");
+    await main();
+
+    expect(mockPage.evaluate.mock.calls[0][0]).toContain('"skipDecorativeBackgrounds":true');
+  });
+
+  it("exits with error when there are no snapshots", async () => {
+    files({});
+
+    const { main } = await import("./reprocess.js");
+    await main();
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: No snapshots in output/raw. Run 'npm run scrape -- --save-raw' first.",
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when meta.json is missing", async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(new Error("ENOENT: no such file"));
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./reprocess.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: Cannot read output/meta.json: ENOENT: no such file. Run 'npm run scrape -- --save-raw' first.",
+    );
+    expect(launchBrowser).not.toHaveBeenCalled();
+  });
+});
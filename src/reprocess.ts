@@ -0,0 +1,167 @@
+/**
+ * Rebuild chapter markdown from saved page snapshots
+ *
+ * Usage: npm run reprocess [-- --skip-decorative-bg]
+ *
+ * Re-runs extraction, markdown conversion and image mapping on the HTML saved by
+ * `npm run scrape -- --save-raw`, without network access. Chapter titles, filenames and
+ * sections stay as recorded in meta.json; images map to the files downloaded during the scrape.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { Page } from "puppeteer";
+import { createPage, launchBrowser, loadSnapshot } from "./browser.js";
+import { buildExtractionScript, type ChapterContent, type ExtractionOptions } from "./extractors.js";
+import { rawSnapshotName, renderChapter } from "./scrape.js";
+import type { BookMeta, ChapterMeta } from "./types.js";
+import { readBookMeta } from "./update.js";
+import { hasFlag, hasHelpFlag, onInterrupt, setupSignalHandlers } from "./utils.js";
+
+const OUTPUT_DIR = "output";
+const CHAPTERS_DIR = path.join(OUTPUT_DIR, "chapters");
+const RAW_DIR = path.join(OUTPUT_DIR, "raw");
+const META_FILE = path.join(OUTPUT_DIR, "meta.json");
+
+/**
+ * Print usage information for the reprocess command.
+ */
+function showUsage(): void {
+  console.log("Usage: npm run reprocess [-- options]");
+  console.log("");
+  console.log("Rebuild output/chapters/ from the page snapshots in output/raw/, without network access.");
+  console.log("Scrape with --save-raw first to save the snapshots.");
+  console.log("");
+  console.log("Options:");
+  console.log("  --skip-decorative-bg Skip full-width background images (covers)");
+  console.log("  --help, -h           Show this help message");
+  console.log("");
+  console.log("Example:");
+  console.log("  npm run reprocess -- --skip-decorative-bg");
+}
+
+/**
+ * Parse command line arguments for the reprocess command.
+ *
+ * @param args - Command line arguments (defaults to process.argv)
+ * @returns Parsed options
+ */
+export function parseArgs(args: string[] = process.argv.slice(2)): { skipDecorativeBg: boolean; showHelp: boolean } {
+  return {
+    skipDecorativeBg: hasFlag(args, "--skip-decorative-bg"),
+    showHelp: hasHelpFlag(args),
+  };
+}
+
+/**
+ * Rebuild one chapter file from its snapshot.
+ *
+ * @param page - Page to load the snapshot into
+ * @param chapter - Chapter metadata from meta.json
+ * @param options - Extraction options
+ * @returns Number of extracted images without a downloaded file, or null if the chapter has no snapshot
+ */
+export async function reprocessChapter(
+  page: Page,
+  chapter: ChapterMeta,
+  options: ExtractionOptions,
+): Promise<number | null> {
+  let snapshot: string;
+  try {
+    snapshot = await fs.readFile(path.join(RAW_DIR, rawSnapshotName(chapter.filename)), "utf-8");
+  } catch {
+    return null;
+  }
+
+  await loadSnapshot(page, snapshot, chapter.url);
+  const { html, imageUrls } = (await page.evaluate(buildExtractionScript(options))) as ChapterContent;
+
+  // Images found now but not during the scrape can't be downloaded offline; they keep remote URLs
+  const images = chapter.images ?? {};
+  const missingImages = new Set(imageUrls.filter((url) => !(url in images))).size;
+
+  await fs.writeFile(path.join(CHAPTERS_DIR, chapter.filename), renderChapter(html, chapter.title, images), "utf-8");
+  return missingImages;
+}
+
+/**
+ * Read meta.json for reprocessing.
+ *
+ * @returns Book metadata
+ * @throws Exits with code 1 if meta.json is missing or invalid
+ */
+async function loadMeta(): Promise<BookMeta> {
+  try {
+    return await readBookMeta(META_FILE);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Cannot read ${META_FILE}: ${message}. Run 'npm run scrape -- --save-raw' first.`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Main entry point for the reprocess command.
+ * Loads each chapter's snapshot offline and rewrites its markdown file.
+ *
+ * @throws Exits with code 1 if meta.json is missing or no chapter has a snapshot
+ */
+export async function main(): Promise<void> {
+  const { skipDecorativeBg, showHelp } = parseArgs();
+
+  if (showHelp) {
+    showUsage();
+    process.exit(0);
+  }
+
+  const meta = await loadMeta();
+  const options: ExtractionOptions = { skipDecorativeBackgrounds: skipDecorativeBg };
+
+  console.log(`Reprocessing ${meta.chapters.length} chapters from ${RAW_DIR}...`);
+  const browser = await launchBrowser();
+  onInterrupt(async () => {
+    await browser.close();
+  });
+
+  let reprocessed = 0;
+  let skipped = 0;
+  let missingImages = 0;
+  try {
+    const page = await createPage(browser);
+    for (const chapter of meta.chapters) {
+      const missing = await reprocessChapter(page, chapter, options);
+      if (missing === null) {
+        skipped++;
+        console.log(`  [${chapter.index + 1}] No snapshot, skipped: ${chapter.filename}`);
+        continue;
+      }
+      reprocessed++;
+      missingImages += missing;
+      console.log(`  [${chapter.index + 1}] ${chapter.title}`);
+    }
+  } finally {
+    await browser.close();
+  }
+
+  if (reprocessed === 0) {
+    console.error(`Error: No snapshots in ${RAW_DIR}. Run 'npm run scrape -- --save-raw' first.`);
+    process.exit(1);
+  }
+
+  console.log(`\nDone! Reprocessed ${reprocessed} chapters.`);
+  if (skipped > 0) {
+    console.log(`Skipped ${skipped} chapter(s) without a snapshot.`);
+  }
+  if (missingImages > 0) {
+    console.log(`Warning: ${missingImages} image(s) were not downloaded during the scrape and keep their remote URLs.`);
+  }
+}
+
+// Only run main when executed directly (not when imported for testing)
+if (import.meta.url === `file://${process.argv[1]}`) {
+  setupSignalHandlers("Reprocessing");
+  main().catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+  });
+}
@@ -1,5 +1,9 @@
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  chooseTitle,
+  createHostThrottle,
   createImageStats,
   delay,
   downloadImage,
@@ -7,12 +11,21 @@ import {
   parseArgs,
   progressBar,
   saveImage,
+  trimCommonSections,
+  withTitleHeading,
 } from "./scrape.js";
 
 // Mock all external dependencies
 vi.mock("fs/promises", () => ({
   mkdir: vi.fn(),
   writeFile: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn(),
+  rm: vi.fn(),
+  access: vi.fn(),
+  copyFile: vi.fn(),
+  readdir: vi.fn(),
+  stat: vi.fn().mockRejectedValue(Object.assign(new Error("ENOENT"), { code: "ENOENT" })),
 }));
 
 vi.mock("sharp", () => ({
@@ -23,10 +36,18 @@ vi.mock("sharp", () => ({
   })),
 }));
 
+vi.mock("./archive.js", () => ({
+  openNetworkArchive: vi.fn(),
+}));
+
 // Mock browser module
 vi.mock("./browser.js", () => ({
   launchBrowser: vi.fn(),
   createPage: vi.fn(),
+  expandCollapsibleContent: vi.fn().mockResolvedValue(0),
+  autoScroll: vi.fn().mockResolvedValue(undefined),
+  waitForReady: vi.fn().mockResolvedValue(true),
+  DEFAULT_READY_TIMEOUT: 15000,
 }));
 
 // Mock fetchWithRetry from utils to isolate downloadImage tests from retry logic
@@ -39,8 +60,12 @@ vi.mock("./utils.js", async (importOriginal) => {
 });
 
 import * as fs from "node:fs/promises";
+import { Window } from "happy-dom";
 // Import mocked modules
-import { createPage, launchBrowser } from "./browser.js";
+import { openNetworkArchive } from "./archive.js";
+import { autoScroll, createPage, expandCollapsibleContent, launchBrowser, waitForReady } from "./browser.js";
+import { snapshotWithLayout } from "./extractors.js";
+import { hashChapterContent } from "./update.js";
 import { fetchWithRetry } from "./utils.js";
 
 describe("parseArgs", () => {
@@ -52,6 +77,31 @@ describe("parseArgs", () => {
       chapterDelay: 1000,
       skipUrls: [],
       urlPattern: null,
+      skipDecorativeBg: false,
+      scroll: false,
+      scrollStep: 600,
+      scrollPause: 200,
+      readyStrategy: "delay",
+      readySelector: null,
+      readyTimeout: 15000,
+      disableAnimations: false,
+      titleSource: "toc",
+      mode: "auto",
+      nextPhrases: [],
+      nextSelector: null,
+      source: "page",
+      sitemapOrder: "sitemap",
+      urlsFile: null,
+      maxDepth: 3,
+      maxPages: 100,
+      crawlPrefix: null,
+      crawlOrder: "discovery",
+      concurrency: 1,
+      resume: false,
+      update: false,
+      saveRaw: false,
+      record: null,
+      replay: null,
       showHelp: false,
     });
   });
@@ -110,10 +160,155 @@ describe("parseArgs", () => {
       chapterDelay: 750,
       skipUrls: ["https://example.com/exclude"],
       urlPattern: "**/*.html",
+      skipDecorativeBg: false,
+      scroll: false,
+      scrollStep: 600,
+      scrollPause: 200,
+      readyStrategy: "delay",
+      readySelector: null,
+      readyTimeout: 15000,
+      disableAnimations: false,
+      titleSource: "toc",
+      mode: "auto",
+      nextPhrases: [],
+      nextSelector: null,
+      source: "page",
+      sitemapOrder: "sitemap",
+      urlsFile: null,
+      maxDepth: 3,
+      maxPages: 100,
+      crawlPrefix: null,
+      crawlOrder: "discovery",
+      concurrency: 1,
+      resume: false,
+      update: false,
+      saveRaw: false,
+      record: null,
+      replay: null,
       showHelp: false,
     });
   });
 
+  it("parses --skip-decorative-bg flag", () => {
+    const result = parseArgs(["https://example.com", "--skip-decorative-bg"]);
+    expect(result.skipDecorativeBg).toBe(true);
+    expect(result.startUrl).toBe("https://example.com");
+  });
+
+  it("parses scroll flags", () => {
+    const result = parseArgs(["https://example.com", "--scroll", "--scroll-step", "300", "--scroll-pause", "50"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.scroll).toBe(true);
+    expect(result.scrollStep).toBe(300);
+    expect(result.scrollPause).toBe(50);
+  });
+
+  it("parses readiness flags", () => {
+    const result = parseArgs(["https://example.com", "--ready", "network-idle", "--ready-timeout", "5000"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.readyStrategy).toBe("network-idle");
+    expect(result.readyTimeout).toBe(5000);
+  });
+
+  it("uses the selector strategy when --ready-selector is given", () => {
+    const result = parseArgs(["https://example.com", "--ready-selector", ".t-records"]);
+    expect(result.readyStrategy).toBe("selector");
+    expect(result.readySelector).toBe(".t-records");
+  });
+
+  it("parses --title-source flag", () => {
+    const result = parseArgs(["https://example.com", "--title-source", "og"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.titleSource).toBe("og");
+  });
+
+  it("parses --mode flag", () => {
+    const result = parseArgs(["https://example.com", "--mode", "navigate"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.mode).toBe("navigate");
+  });
+
+  it("parses sitemap flags", () => {
+    const result = parseArgs(["https://example.com", "--source", "sitemap", "--sitemap-order", "natural"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.source).toBe("sitemap");
+    expect(result.sitemapOrder).toBe("natural");
+  });
+
+  it("parses --urls-file without a start URL", () => {
+    const result = parseArgs(["--urls-file", "chapters.txt"]);
+    expect(result.startUrl).toBe("");
+    expect(result.urlsFile).toBe("chapters.txt");
+  });
+
+  it("parses crawl flags", () => {
+    const result = parseArgs([
+      "https://example.com/book/",
+      "--mode",
+      "crawl",
+      "--max-depth",
+      "2",
+      "--max-pages",
+      "50",
+      "--crawl-prefix",
+      "/book/",
+      "--crawl-order",
+      "url",
+    ]);
+    expect(result.startUrl).toBe("https://example.com/book/");
+    expect(result.mode).toBe("crawl");
+    expect(result.maxDepth).toBe(2);
+    expect(result.maxPages).toBe(50);
+    expect(result.crawlPrefix).toBe("/book/");
+    expect(result.crawlOrder).toBe("url");
+  });
+
+  it("parses --concurrency flag", () => {
+    const result = parseArgs(["https://example.com", "--concurrency", "4"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.concurrency).toBe(4);
+  });
+
+  it("parses --resume flag", () => {
+    const result = parseArgs(["https://example.com", "--resume"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.resume).toBe(true);
+  });
+
+  it("parses --save-raw flag", () => {
+    const result = parseArgs(["https://example.com", "--save-raw"]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.saveRaw).toBe(true);
+  });
+
+  it("parses --record and --replay", () => {
+    expect(parseArgs(["https://example.com", "--record", "archive"]).record).toBe("archive");
+    const result = parseArgs(["--replay", "archive", "https://example.com"]);
+    expect(result.replay).toBe("archive");
+    expect(result.startUrl).toBe("https://example.com");
+  });
+
+  it("parses --update flag", () => {
+    const result = parseArgs(["--update"]);
+    expect(result.startUrl).toBe("");
+    expect(result.update).toBe(true);
+  });
+
+  it("parses next-link flags", () => {
+    const result = parseArgs([
+      "https://example.com",
+      "--next-text",
+      "onward",
+      "--next-text",
+      "keep reading",
+      "--next-selector",
+      ".t-btn_next",
+    ]);
+    expect(result.startUrl).toBe("https://example.com");
+    expect(result.nextPhrases).toEqual(["onward", "keep reading"]);
+    expect(result.nextSelector).toBe(".t-btn_next");
+  });
+
   it("ignores flags without values", () => {
     const result = parseArgs(["https://example.com", "--wait"]);
     expect(result.pageWait).toBe(1000); // default
@@ -176,6 +371,59 @@ describe("delay", () => {
   });
 });
 
+describe("createHostThrottle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spaces out concurrent requests to the same host", async () => {
+    const throttle = createHostThrottle(1000);
+    const started: string[] = [];
+    const track = (url: string) => throttle(url).then(() => started.push(url));
+
+    const all = Promise.all([track("https://a.com/1"), track("https://a.com/2"), track("https://a.com/3")]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["https://a.com/1"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(["https://a.com/1", "https://a.com/2"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await all;
+    expect(started).toEqual(["https://a.com/1", "https://a.com/2", "https://a.com/3"]);
+  });
+
+  it("does not delay requests to different hosts", async () => {
+    const throttle = createHostThrottle(1000);
+    const started: string[] = [];
+
+    const all = Promise.all(
+      ["https://a.com/1", "https://b.com/1"].map((url) => throttle(url).then(() => started.push(url))),
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    await all;
+
+    expect(started).toEqual(["https://a.com/1", "https://b.com/1"]);
+  });
+
+  it("does not wait when the interval has already passed", async () => {
+    const throttle = createHostThrottle(1000);
+    await throttle("https://a.com/1");
+    await vi.advanceTimersByTimeAsync(1500);
+
+    let started = false;
+    throttle("https://a.com/2").then(() => {
+      started = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started).toBe(true);
+  });
+});
+
 describe("progressBar", () => {
   let mockStdoutWrite: ReturnType<typeof vi.spyOn>;
 
@@ -347,6 +595,25 @@ describe("downloadImage", () => {
     // No fallback for non-Tilda URLs, so only one fetch
     expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
   });
+
+  it("copies images of pages on disk instead of downloading them", async () => {
+    vi.mocked(fs.readFile).mockResolvedValueOnce(Buffer.from("local-image-data") as never);
+
+    const result = await downloadImage("file:///home/me/export/images/tild1234__photo.png", 7, stats);
+
+    expect(result).toBe("img-0007.jpg");
+    expect(fs.readFile).toHaveBeenCalledWith("/home/me/export/images/tild1234__photo.png");
+    expect(mockFetchWithRetry).not.toHaveBeenCalled();
+  });
+
+  it("counts a missing local image as failed", async () => {
+    vi.mocked(fs.readFile).mockRejectedValueOnce(new Error("ENOENT"));
+
+    const result = await downloadImage("file:///home/me/export/images/missing.png", 8, stats);
+
+    expect(result).toBeNull();
+    expect(stats.failedCount).toBe(1);
+  });
 });
 
 describe("saveImage", () => {
@@ -394,6 +661,7 @@ describe("saveImage", () => {
 interface MockPage {
   goto: ReturnType<typeof vi.fn>;
   evaluate: ReturnType<typeof vi.fn>;
+  content?: ReturnType<typeof vi.fn>;
 }
 
 interface MockBrowser {
@@ -470,6 +738,114 @@ describe("main", () => {
     expect(mockExit).toHaveBeenCalledWith(1);
   });
 
+  it("exits with error for an unknown readiness strategy", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--ready", "sometime"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Unknown --ready strategy "sometime"'));
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits with error when the selector strategy has no selector", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--ready", "selector"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith("Error: --ready selector requires --ready-selector <css>");
+  });
+
+  it("scrapes a local directory from its index.html", async () => {
+    process.argv = ["node", "scrape.ts", "export", "--mode", "navigate"];
+    vi.mocked(fs.stat)
+      .mockResolvedValueOnce({ isDirectory: () => true } as never)
+      .mockResolvedValueOnce({ isFile: () => true } as never);
+    mockPage.evaluate.mockResolvedValueOnce([]).mockResolvedValueOnce({
+      title: "Chapter 1",
+      titles: { h1: "Chapter 1", og: null, title: null },
+      html: "<p>Content</p>",
+      imageUrls: [],
+    });
+    mockPage.evaluate.mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    const startUrl = pathToFileURL(path.resolve("export", "index.html")).href;
+    expect(mockPage.goto).toHaveBeenCalledWith(startUrl, expect.anything());
+    const meta = vi.mocked(fs.writeFile).mock.calls.find(([file]) => file === "output/meta.json");
+    expect(JSON.parse(String(meta?.[1])).startUrl).toBe(startUrl);
+  });
+
+  it("copies relative images of a page on disk into the book", async () => {
+    const pageUrl = "file:///home/me/export/page1.html";
+    process.argv = ["node", "scrape.ts", pageUrl, "--mode", "navigate", "--wait", "0", "--delay", "0"];
+    vi.mocked(fs.readFile).mockResolvedValueOnce(Buffer.from("local-image-data") as never);
+
+    // The extraction script runs against the page as loaded from disk
+    const window = new Window({ url: pageUrl });
+    window.document.body.innerHTML = `
+      <div data-record-type="106">
+        <div class="t-text">Intro</div>
+        <img src="images/tild1__photo.jpg" alt="Photo">
+      </div>`;
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockImplementationOnce((script: string) => Promise.resolve(window.eval(script)))
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+    await window.happyDOM.close();
+
+    expect(fs.readFile).toHaveBeenCalledWith("/home/me/export/images/tild1__photo.jpg");
+    const sharp = (await import("sharp")).default;
+    expect(vi.mocked(sharp).mock.results[0].value.toFile).toHaveBeenCalledWith("output/images/img-0000.jpg");
+    const chapter = vi.mocked(fs.writeFile).mock.calls.find(([file]) => String(file).startsWith("output/chapters/"));
+    expect(String(chapter?.[1])).toContain("](../images/img-0000.jpg)");
+  });
+
+  it("exits with error for a directory without index.html", async () => {
+    process.argv = ["node", "scrape.ts", "export"];
+    vi.mocked(fs.stat)
+      .mockResolvedValueOnce({ isDirectory: () => true } as never)
+      .mockRejectedValueOnce(new Error("ENOENT"));
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: No index.html in export; pass the path of the start page instead",
+    );
+  });
+
+  it("rejects --source sitemap for pages on disk", async () => {
+    process.argv = ["node", "scrape.ts", "file:///home/me/export/index.html", "--source", "sitemap"];
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith("Error: --source sitemap needs an http or https start URL");
+  });
+
   it("exits with error when URL uses non-http protocol", async () => {
     process.argv = ["node", "scrape.ts", "ftp://example.com/book"];
 
@@ -481,7 +857,7 @@ describe("main", () => {
 
     await expect(main()).rejects.toThrow("process.exit called");
 
-    expect(mockConsoleError).toHaveBeenCalledWith("Error: URL must use http or https protocol");
+    expect(mockConsoleError).toHaveBeenCalledWith("Error: URL must use http, https or file protocol");
     expect(mockExit).toHaveBeenCalledWith(1);
   });
 
@@ -491,8 +867,13 @@ describe("main", () => {
     // Mock page.evaluate for extractTocLinks to return empty array (navigation mode)
     mockPage.evaluate
       .mockResolvedValueOnce([]) // extractTocLinks
-      .mockResolvedValueOnce({ title: "Chapter 1", html: "<p>Content</p>", imageUrls: [] }) // extractChapterContent
-      .mockResolvedValueOnce(null); // findNextChapterLink
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      }) // extractChapterContent
+      .mockResolvedValueOnce(null); // findNextLink
 
     const { main } = await import("./scrape.js");
     await main();
@@ -506,14 +887,19 @@ describe("main", () => {
 
     mockPage.evaluate
       .mockResolvedValueOnce([])
-      .mockResolvedValueOnce({ title: "Chapter 1", html: "<p>Content</p>", imageUrls: [] })
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
       .mockResolvedValueOnce(null);
 
     const { main } = await import("./scrape.js");
     await main();
 
     expect(launchBrowser).toHaveBeenCalled();
-    expect(createPage).toHaveBeenCalledWith(mockBrowser);
+    expect(createPage).toHaveBeenCalledWith(mockBrowser, { disableAnimations: false });
   });
 
   it("writes metadata file after scraping", async () => {
@@ -521,7 +907,12 @@ describe("main", () => {
 
     mockPage.evaluate
       .mockResolvedValueOnce([])
-      .mockResolvedValueOnce({ title: "Chapter 1", html: "<p>Content</p>", imageUrls: [] })
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
       .mockResolvedValueOnce(null);
 
     const { main } = await import("./scrape.js");
@@ -530,126 +921,1186 @@ describe("main", () => {
     expect(fs.writeFile).toHaveBeenCalledWith("output/meta.json", expect.stringContaining('"startUrl"'), "utf-8");
   });
 
-  it("closes browser after completion", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
-
-    mockPage.evaluate
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce({ title: "Chapter 1", html: "<p>Content</p>", imageUrls: [] })
-      .mockResolvedValueOnce(null);
+  it("records TOC sections in chapter metadata", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--wait", "0", "--delay", "0", "--mode", "toc"];
+    const random = vi.spyOn(Math, "random").mockReturnValue(0);
+
+    const tocLinks = Array.from({ length: 21 }, (_, i) => ({
+      url: `https://example.com/ch${i + 1}`,
+      text: `Chapter ${i + 1}`,
+      sections: [i < 10 ? "Part I" : "Part II"],
+    }));
+    mockPage.evaluate.mockResolvedValueOnce(tocLinks);
+    for (let i = 0; i < tocLinks.length; i++) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: `Chapter ${i + 1}`,
+        titles: { h1: `Chapter ${i + 1}`, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
     const { main } = await import("./scrape.js");
     await main();
+    random.mockRestore();
 
-    expect(mockBrowser.close).toHaveBeenCalled();
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find(([file]) => file === "output/meta.json");
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters).toHaveLength(21);
+    expect(meta.chapters[0].sections).toEqual(["Part I"]);
+    expect(meta.chapters[20].sections).toEqual(["Part II"]);
   });
 
-  it("closes browser even on error", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
-
-    mockPage.goto.mockRejectedValueOnce(new Error("Network error"));
+  it("uses TOC link text as chapter titles by default", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--wait", "0", "--delay", "0", "--mode", "toc"];
+    const random = vi.spyOn(Math, "random").mockReturnValue(0);
+
+    const tocLinks = Array.from({ length: 21 }, (_, i) => ({
+      url: `https://example.com/ch${i + 1}`,
+      text: `Lesson ${i + 1}`,
+      sections: [],
+    }));
+    mockPage.evaluate.mockResolvedValueOnce(tocLinks);
+    for (let i = 0; i < tocLinks.length; i++) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: "Site Name",
+        titles: { h1: "Site Name", og: null, title: null },
+        html: "<h1>Site Name</h1><p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
     const { main } = await import("./scrape.js");
     await main();
+    random.mockRestore();
 
-    expect(mockBrowser.close).toHaveBeenCalled();
-    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/001-lesson-1\.md$/),
+      expect.stringMatching(/^# Lesson 1\n/),
+      "utf-8",
+    );
   });
 
-  it("handles empty page content gracefully", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+  it("picks TOC mode from page signals and prints the reasons", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--wait", "0", "--delay", "0"];
+    const random = vi.spyOn(Math, "random").mockReturnValue(0);
 
+    const tocLinks = Array.from({ length: 12 }, (_, i) => ({
+      url: `https://example.com/book/ch${i + 1}`,
+      text: `Chapter ${i + 1}`,
+      sections: [],
+    }));
     mockPage.evaluate
-      .mockResolvedValueOnce([]) // extractTocLinks - no TOC links
-      .mockResolvedValueOnce({ title: "Empty Chapter", html: "", imageUrls: [] }) // empty content
-      .mockResolvedValueOnce(null); // no next link
+      .mockResolvedValueOnce(tocLinks) // extractTocLinks
+      .mockResolvedValueOnce({ textLength: 400, linkTextLength: 150, listedLinks: 12 }) // extractPageSignals
+      .mockResolvedValueOnce(null); // findNextLink
+    for (let i = 0; i < tocLinks.length; i++) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: `Chapter ${i + 1}`,
+        titles: { h1: `Chapter ${i + 1}`, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
     const { main } = await import("./scrape.js");
     await main();
+    random.mockRestore();
 
-    // Should still write the chapter file even with empty content
+    expect(mockConsoleLog).toHaveBeenCalledWith("Mode: toc (score 5)");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  +1 12 chapter links");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  +1 100% of links share /book/");
     expect(fs.writeFile).toHaveBeenCalledWith(
-      expect.stringMatching(/output\/chapters\/001-empty-chapter\.md$/),
-      expect.stringContaining("# Empty Chapter"),
+      expect.stringMatching(/012-chapter-12\.md$/),
+      expect.any(String),
       "utf-8",
     );
   });
 
-  it("handles unicode in chapter titles", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+  it("scrapes sitemap pages in natural order with filters applied", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "https://example.com/book",
+      "--source",
+      "sitemap",
+      "--sitemap-order",
+      "natural",
+      "--url-pattern",
+      "**/page*",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    const sitemap =
+      "<urlset><url><loc>https://example.com/</loc></url>" +
+      "<url><loc>https://example.com/page10</loc></url>" +
+      "<url><loc>https://example.com/page2</loc></url>" +
+      "<url><loc>https://other.com/page1</loc></url></urlset>";
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve(sitemap),
+    } as Response);
+    for (const title of ["Two", "Ten"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title,
+        titles: { h1: title, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
-    mockPage.evaluate
-      .mockResolvedValueOnce([]) // extractTocLinks
-      .mockResolvedValueOnce({ title: "Глава 1: Введение", html: "<p>Содержимое</p>", imageUrls: [] })
-      .mockResolvedValueOnce(null);
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fetchWithRetry).toHaveBeenCalledWith("https://example.com/sitemap.xml");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Mode: toc");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Filtered 1 URLs (3 → 2)");
+    expect(mockPage.goto).not.toHaveBeenCalledWith("https://example.com/book", expect.anything());
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual([
+      "https://example.com/page2",
+      "https://example.com/page10",
+    ]);
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/001-two\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("scrapes the URLs file in order with title overrides", async () => {
+    process.argv = ["node", "scrape.ts", "--urls-file", "chapters.txt", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      "# Curated order\nhttps://example.com/page9 # Preface\nhttps://example.com/page2\n",
+    );
+    for (const h1 of ["Site Name", "Chapter Two"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: h1,
+        titles: { h1, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
     const { main } = await import("./scrape.js");
     await main();
 
-    // Verify unicode filename is created correctly
+    expect(mockConsoleLog).toHaveBeenCalledWith("Mode: toc");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  2 URLs from --urls-file");
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual([
+      "https://example.com/page9",
+      "https://example.com/page2",
+    ]);
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/001-preface\.md$/), expect.any(String), "utf-8");
     expect(fs.writeFile).toHaveBeenCalledWith(
-      expect.stringMatching(/output\/chapters\/001-глава-1-введение\.md$/),
+      expect.stringMatching(/002-chapter-two\.md$/),
       expect.any(String),
       "utf-8",
     );
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/meta\.json$/),
+      expect.stringContaining('"startUrl": "https://example.com/page9"'),
+      "utf-8",
+    );
   });
 
-  it("truncates extremely long titles in filenames", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
-
-    const longTitle =
-      "This is an extremely long chapter title that definitely exceeds the fifty character limit for filenames";
-    mockPage.evaluate
-      .mockResolvedValueOnce([]) // extractTocLinks
-      .mockResolvedValueOnce({ title: longTitle, html: "<p>Content</p>", imageUrls: [] })
-      .mockResolvedValueOnce(null);
+  it("prefers URLs file titles over every --title-source", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "--urls-file",
+      "chapters.txt",
+      "--title-source",
+      "h1",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    vi.mocked(fs.readFile).mockResolvedValueOnce("https://example.com/page9 # Preface\nhttps://example.com/page2\n");
+    for (const h1 of ["Site Name", "Chapter Two"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: h1,
+        titles: { h1, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
 
     const { main } = await import("./scrape.js");
     await main();
 
-    // Filename should be truncated (001- prefix + max 50 chars + .md)
-    const writeCall = vi
-      .mocked(fs.writeFile)
-      .mock.calls.find((call) => typeof call[0] === "string" && call[0].includes("chapters"));
-    expect(writeCall).toBeDefined();
-    const filePath = writeCall?.[0] as string;
-    const filename = filePath.split("/").pop() ?? "";
-    // 001- (4) + sanitized title (max 50) + .md (3) = max 57 chars
-    expect(filename.length).toBeLessThanOrEqual(57);
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/001-preface\.md$/),
+      expect.stringMatching(/^# Preface\n/),
+      "utf-8",
+    );
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/002-chapter-two\.md$/),
+      expect.any(String),
+      "utf-8",
+    );
   });
 
-  it("shows help and exits with code 0 when --help flag is provided", async () => {
-    process.argv = ["node", "scrape.ts", "--help"];
+  it("exits with error when the URLs file is invalid", async () => {
+    process.argv = ["node", "scrape.ts", "--urls-file", "chapters.txt"];
+    vi.mocked(fs.readFile).mockResolvedValueOnce("example.com/one\n");
 
     mockExit.mockImplementation(() => {
       throw new Error("process.exit called");
     });
 
     const { main } = await import("./scrape.js");
-
     await expect(main()).rejects.toThrow("process.exit called");
 
-    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
-    expect(mockExit).toHaveBeenCalledWith(0);
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: Cannot read --urls-file chapters.txt: Line 1: Invalid URL format (example.com/one)",
+    );
   });
 
-  it("shows warning when images fail to download", async () => {
-    process.argv = ["node", "scrape.ts", "https://example.com/book"];
-
-    // Mock fetchWithRetry to fail for image downloads
-    vi.mocked(fetchWithRetry).mockResolvedValue({
-      ok: false,
-      status: 404,
-    } as Response);
+  it("crawls from the start page in crawl mode and scrapes the pages in URL order", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "https://example.com/book/",
+      "--mode",
+      "crawl",
+      "--crawl-order",
+      "url",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
 
     mockPage.evaluate
-      .mockResolvedValueOnce([]) // extractTocLinks
-      .mockResolvedValueOnce({
-        title: "Chapter with Images",
+      .mockResolvedValueOnce(["https://example.com/book/ch10", "https://example.com/about"]) // start page links
+      .mockResolvedValueOnce(["https://example.com/book/ch2#top"]) // ch10 links
+      .mockResolvedValueOnce([]); // ch2 links
+    for (const title of ["Contents", "Chapter 2", "Chapter 10"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title,
+        titles: { h1: title, og: null, title: null },
         html: "<p>Content</p>",
-        imageUrls: ["https://example.com/image1.png", "https://example.com/image2.png"],
-      })
-      .mockResolvedValueOnce(null); // no next link
+        imageUrls: [],
+      });
+    }
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith("Mode: crawl");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  3 pages found");
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual([
+      "https://example.com/book/",
+      "https://example.com/book/ch10",
+      "https://example.com/book/ch2",
+      "https://example.com/book/",
+      "https://example.com/book/ch2",
+      "https://example.com/book/ch10",
+    ]);
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/003-chapter-10\.md$/),
+      expect.any(String),
+      "utf-8",
+    );
+  });
+
+  it("applies --skip and --url-pattern while crawling", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "https://example.com/book/",
+      "--mode",
+      "crawl",
+      "--skip",
+      "/book/shop",
+      "--url-pattern",
+      "**/ch*",
+      "--max-pages",
+      "1",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce(["https://example.com/book/shop", "https://example.com/book/ch1"]) // start page links
+      .mockResolvedValueOnce(["https://example.com/book/ch2"]) // ch1 links
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith("  Stopped at --max-pages 1 (1 more pages found)");
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual([
+      "https://example.com/book/",
+      "https://example.com/book/ch1",
+      "https://example.com/book/ch1",
+    ]);
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/001-chapter-1\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("scrapes chapters in parallel pages, keeping chapter order and unique image indices", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "--urls-file",
+      "chapters.txt",
+      "--concurrency",
+      "2",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      ["one", "two", "three", "four"].map((name) => `https://example.com/${name}`).join("\n"),
+    );
+    vi.mocked(fetchWithRetry).mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(Buffer.from("fake-image-data")),
+    } as unknown as Response);
+
+    // Each page returns content for the URL it was sent to; the first page loads slowly
+    const makePage = (loadMs: number) => {
+      let current = "";
+      return {
+        goto: vi.fn(async (url: string) => {
+          current = url;
+          await new Promise((resolve) => setTimeout(resolve, loadMs));
+        }),
+        evaluate: vi.fn(() => {
+          const name = current.split("/").pop() ?? "";
+          return Promise.resolve({
+            title: name,
+            titles: { h1: name, og: null, title: null },
+            html: `<img src="https://static.tildacdn.com/tild1/${name}.jpg">`,
+            imageUrls: [`https://static.tildacdn.com/tild1/${name}.jpg`],
+          });
+        }),
+      };
+    };
+    const slowPage = makePage(30);
+    const fastPage = makePage(0);
+    vi.mocked(createPage)
+      .mockResolvedValueOnce(slowPage as unknown as Awaited<ReturnType<typeof createPage>>)
+      .mockResolvedValueOnce(fastPage as unknown as Awaited<ReturnType<typeof createPage>>);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(createPage).toHaveBeenCalledTimes(2);
+    expect(slowPage.goto).toHaveBeenCalled();
+    expect(fastPage.goto).toHaveBeenCalled();
+
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters.map((chapter: { title: string; index: number }) => [chapter.index, chapter.title])).toEqual([
+      [0, "one"],
+      [1, "two"],
+      [2, "three"],
+      [3, "four"],
+    ]);
+
+    const imageRefs = vi
+      .mocked(fs.writeFile)
+      .mock.calls.filter((call) => String(call[0]).includes("chapters"))
+      .map((call) => String(call[1]).match(/img-\d+\.jpg/)?.[0]);
+    expect(new Set(imageRefs).size).toBe(4);
+  });
+
+  it("saves a checkpoint after each chapter and removes it when all chapters succeed", async () => {
+    process.argv = ["node", "scrape.ts", "--urls-file", "chapters.txt", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce("https://example.com/one\nhttps://example.com/two\n");
+    for (const h1 of ["One", "Two"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: h1,
+        titles: { h1, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      });
+    }
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    const saves = vi
+      .mocked(fs.writeFile)
+      .mock.calls.filter((call) => call[0] === "output/checkpoint.json.tmp")
+      .map((call) => JSON.parse(call[1] as string));
+    expect(saves.map((checkpoint) => checkpoint.chapters.length)).toEqual([0, 1, 2]);
+    expect(saves[0].links.map((link: { url: string }) => link.url)).toEqual([
+      "https://example.com/one",
+      "https://example.com/two",
+    ]);
+    expect(fs.rename).toHaveBeenCalledWith("output/checkpoint.json.tmp", "output/checkpoint.json");
+    expect(fs.rm).toHaveBeenCalledWith("output/checkpoint.json", { force: true });
+  });
+
+  it("keeps the checkpoint when a chapter fails", async () => {
+    process.argv = ["node", "scrape.ts", "--urls-file", "chapters.txt", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce("https://example.com/one\n");
+    mockPage.goto.mockRejectedValueOnce(new Error("timeout"));
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    const saves = vi.mocked(fs.writeFile).mock.calls.filter((call) => call[0] === "output/checkpoint.json.tmp");
+    expect(JSON.parse(saves[saves.length - 1][1] as string).failures).toEqual([
+      { index: 0, url: "https://example.com/one", message: "timeout" },
+    ]);
+    expect(fs.rm).not.toHaveBeenCalled();
+    expect(mockConsoleLog).toHaveBeenCalledWith("Run again with --resume to retry them.");
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("resumes from the checkpoint, skipping done chapters and continuing image numbers", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--resume", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fetchWithRetry).mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(Buffer.from("fake-image-data")),
+    } as unknown as Response);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        startUrl: "https://example.com/book",
+        mode: "toc",
+        links: ["one", "two", "three"].map((name) => ({
+          url: `https://example.com/${name}`,
+          text: name,
+          sections: [],
+        })),
+        chapters: [{ index: 0, title: "one", url: "https://example.com/one", filename: "001-one.md" }],
+        failures: [{ index: 1, url: "https://example.com/two", message: "timeout" }],
+        nextImageIndex: 7,
+        nextUrl: null,
+      }),
+    );
+    for (const name of ["two", "three"]) {
+      mockPage.evaluate.mockResolvedValueOnce({
+        title: name,
+        titles: { h1: name, og: null, title: null },
+        html: `<img src="https://static.tildacdn.com/tild1/${name}.jpg">`,
+        imageUrls: [`https://static.tildacdn.com/tild1/${name}.jpg`],
+      });
+    }
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fs.readFile).toHaveBeenCalledWith("output/checkpoint.json", "utf-8");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Resuming toc scrape: 1 of 3 chapters done");
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual([
+      "https://example.com/two",
+      "https://example.com/three",
+    ]);
+    const chapterFiles = vi.mocked(fs.writeFile).mock.calls.filter((call) => String(call[0]).includes("chapters"));
+    expect(chapterFiles.map((call) => String(call[1]).match(/img-\d+\.jpg/)?.[0])).toEqual([
+      "img-0007.jpg",
+      "img-0008.jpg",
+    ]);
+
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters.map((chapter: { filename: string }) => chapter.filename)).toEqual([
+      "001-one.md",
+      "002-two.md",
+      "003-three.md",
+    ]);
+    expect(fs.rm).toHaveBeenCalledWith("output/checkpoint.json", { force: true });
+  });
+
+  it("continues navigation from the checkpoint's next URL", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--resume", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        startUrl: "https://example.com/book",
+        mode: "navigate",
+        links: [{ url: "https://example.com/book", text: "", sections: [] }],
+        chapters: [{ index: 0, title: "One", url: "https://example.com/book", filename: "001-one.md" }],
+        failures: [],
+        nextImageIndex: 0,
+        nextUrl: "https://example.com/two",
+      }),
+    );
+    mockPage.evaluate
+      .mockResolvedValueOnce({
+        title: "Two",
+        titles: { h1: "Two", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockPage.goto.mock.calls.map((call) => call[0])).toEqual(["https://example.com/two"]);
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/002-two\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("updates only new and changed chapters and prints a change summary", async () => {
+    process.argv = ["node", "scrape.ts", "--update", "--mode", "toc", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fetchWithRetry).mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(Buffer.from("fake-image-data")),
+    } as unknown as Response);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        scrapedAt: "2024-01-01T00:00:00.000Z",
+        startUrl: "https://example.com/book",
+        chapters: [
+          {
+            index: 0,
+            title: "One",
+            url: "https://example.com/one",
+            filename: "001-one.md",
+            contentHash: hashChapterContent("One", "<p>Same</p>"),
+            scrapedAt: "2024-01-01T00:00:00.000Z",
+          },
+          { index: 1, title: "Two", url: "https://example.com/two", filename: "002-two.md", contentHash: "old" },
+          { index: 2, title: "Gone", url: "https://example.com/gone", filename: "003-gone.md", contentHash: "x" },
+        ],
+      }),
+    );
+    vi.mocked(fs.access).mockRejectedValueOnce(new Error("ENOENT"));
+    vi.mocked(fs.readdir).mockResolvedValueOnce(["img-0000.jpg", "img-0004.jpg"] as never);
+
+    const chapter = (title: string, html: string, imageUrls: string[] = []) => ({
+      title,
+      titles: { h1: title, og: null, title: null },
+      html,
+      imageUrls,
+    });
+    const imageUrl = "https://static.tildacdn.com/tild1/new.jpg";
+    mockPage.evaluate
+      .mockResolvedValueOnce(
+        ["new", "one", "two"].map((name) => ({ url: `https://example.com/${name}`, text: "", sections: [] })),
+      )
+      .mockResolvedValueOnce(chapter("New", `<img src="${imageUrl}">`, [imageUrl]))
+      .mockResolvedValueOnce(chapter("One", "<p>Same</p>"))
+      .mockResolvedValueOnce(chapter("Two", "<p>Edited</p>"));
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockPage.goto).toHaveBeenCalledWith("https://example.com/book", expect.anything());
+    expect(fs.rename).toHaveBeenCalledWith("output/chapters", "output/chapters.previous");
+    expect(fs.copyFile).toHaveBeenCalledWith("output/chapters.previous/001-one.md", "output/chapters/002-one.md");
+    const chapterFiles = vi.mocked(fs.writeFile).mock.calls.filter((call) => String(call[0]).includes("chapters/"));
+    expect(chapterFiles.map((call) => call[0])).toEqual(["output/chapters/001-new.md", "output/chapters/003-two.md"]);
+    expect(String(chapterFiles[0][1])).toContain("../images/img-0005.jpg");
+
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters[1]).toMatchObject({ filename: "002-one.md", scrapedAt: "2024-01-01T00:00:00.000Z" });
+    expect(meta.chapters[2].contentHash).toBe(hashChapterContent("Two", "<p>Edited</p>"));
+
+    expect(mockConsoleLog).toHaveBeenCalledWith("\nUpdate: 1 unchanged, 1 changed, 1 new, 1 removed");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  changed  [3] Two");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  new      [1] New");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  removed  Gone (https://example.com/gone)");
+    expect(fs.rm).toHaveBeenCalledWith("output/chapters.previous", { recursive: true, force: true });
+  });
+
+  it("keeps the previous version of chapters that fail during an update", async () => {
+    process.argv = ["node", "scrape.ts", "--update", "--mode", "toc", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        scrapedAt: "2024-01-01T00:00:00.000Z",
+        startUrl: "https://example.com/book",
+        chapters: [
+          { index: 0, title: "Two", url: "https://example.com/two", filename: "001-two.md", contentHash: "old" },
+          { index: 1, title: "One", url: "https://example.com/one", filename: "002-one.md", contentHash: "old" },
+        ],
+      }),
+    );
+    vi.mocked(fs.access).mockRejectedValueOnce(new Error("ENOENT"));
+    vi.mocked(fs.readdir).mockResolvedValueOnce([] as never);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce(
+        ["one", "two"].map((name) => ({ url: `https://example.com/${name}`, text: "", sections: [] })),
+      )
+      .mockResolvedValueOnce({
+        title: "One",
+        titles: { h1: "One", og: null, title: null },
+        html: "<p>Edited</p>",
+        imageUrls: [],
+      })
+      .mockRejectedValueOnce(new Error("Navigation timeout"));
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fs.copyFile).toHaveBeenCalledWith("output/chapters.previous/001-two.md", "output/chapters/002-two.md");
+    expect(mockConsoleLog).toHaveBeenCalledWith("Kept the previous version of [2] Two");
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters.map((chapter: { filename: string }) => chapter.filename)).toEqual([
+      "001-one.md",
+      "002-two.md",
+    ]);
+    expect(meta.chapters[1]).toMatchObject({ index: 1, title: "Two", contentHash: "old", stale: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledWith("\nUpdate: 0 unchanged, 1 changed, 0 new, 0 removed");
+    expect(mockConsoleLog).toHaveBeenCalledWith("\nDone! Scraped 1 chapters.");
+    expect(fs.rm).not.toHaveBeenCalledWith("output/chapters.previous", expect.anything());
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("removes the kept version of a failed chapter before --resume retries it", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--resume", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        startUrl: "https://example.com/book",
+        mode: "toc",
+        links: [{ url: "https://example.com/two", text: "", sections: [] }],
+        chapters: [],
+        failures: [{ index: 0, url: "https://example.com/two", message: "timeout" }],
+        nextImageIndex: 0,
+        nextUrl: null,
+        previous: [{ index: 1, title: "Two", url: "https://example.com/two", filename: "002-two.md" }],
+      }),
+    );
+    mockPage.evaluate.mockResolvedValueOnce({
+      title: "Renamed",
+      titles: { h1: "Renamed", og: null, title: null },
+      html: "<p>Content</p>",
+      imageUrls: [],
+    });
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fs.rm).toHaveBeenCalledWith("output/chapters/001-two.md", { force: true });
+    expect(fs.writeFile).toHaveBeenCalledWith("output/chapters/001-renamed.md", expect.any(String), "utf-8");
+  });
+
+  it("keeps failed chapters before removing the previous chapters of a navigation update", async () => {
+    process.argv = ["node", "scrape.ts", "--update", "--mode", "navigate", "--wait", "0", "--delay", "0"];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        scrapedAt: "2024-01-01T00:00:00.000Z",
+        startUrl: "https://example.com/book",
+        chapters: [{ index: 0, title: "Book", url: "https://example.com/book", filename: "001-book.md" }],
+      }),
+    );
+    vi.mocked(fs.access).mockRejectedValueOnce(new Error("ENOENT"));
+    vi.mocked(fs.readdir).mockResolvedValueOnce([] as never);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error("Navigation timeout"))
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fs.copyFile).toHaveBeenCalledWith("output/chapters.previous/001-book.md", "output/chapters/001-book.md");
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    expect(JSON.parse(metaCall?.[1] as string).chapters).toEqual([
+      { index: 0, title: "Book", url: "https://example.com/book", filename: "001-book.md", stale: true },
+    ]);
+    const order = (mock: { mock: { invocationCallOrder: number[] } }, i: number) => mock.mock.invocationCallOrder[i];
+    const removal = vi.mocked(fs.rm).mock.calls.findIndex((call) => call[0] === "output/chapters.previous");
+    expect(order(vi.mocked(fs.copyFile), 0)).toBeLessThan(order(vi.mocked(fs.rm), removal));
+  });
+
+  it("exits with error when --update has no earlier scrape", async () => {
+    process.argv = ["node", "scrape.ts", "--update"];
+    vi.mocked(fs.readFile).mockRejectedValueOnce(new Error("ENOENT: no such file"));
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: --update needs the output/meta.json of an earlier scrape: ENOENT: no such file",
+    );
+  });
+
+  it("exits with error when an earlier update is unfinished", async () => {
+    process.argv = ["node", "scrape.ts", "--update"];
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({ scrapedAt: "2024-01-01T00:00:00.000Z", startUrl: "https://example.com/book", chapters: [] }),
+    );
+    vi.mocked(fs.access).mockResolvedValueOnce(undefined);
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: output/chapters.previous is left from an unfinished update; continue it with --resume or remove it",
+    );
+  });
+
+  it("exits with error when the checkpoint is for another start URL", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/other", "--resume"];
+    vi.mocked(fs.readFile).mockResolvedValueOnce(
+      JSON.stringify({
+        startUrl: "https://example.com/book",
+        mode: "toc",
+        links: [],
+        chapters: [],
+        failures: [],
+        nextImageIndex: 0,
+        nextUrl: null,
+      }),
+    );
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "Error: output/checkpoint.json is for https://example.com/book, not https://example.com/other",
+    );
+  });
+
+  it("exits with error for an unknown chapter source", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--source", "rss"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith('Error: Unknown --source "rss" (expected: page, sitemap)');
+  });
+
+  it("follows navigation links when --mode navigate is set", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce(
+        Array.from({ length: 30 }, (_, i) => ({ url: `https://example.com/p${i}`, text: "", sections: [] })),
+      )
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith("Mode: navigate");
+    expect(mockConsoleLog).toHaveBeenCalledWith("  set with --mode");
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/001-chapter-1\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("scrapes navigation mode with one page whatever --concurrency says", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate", "--concurrency", "3"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(createPage).toHaveBeenCalledTimes(1);
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      "--concurrency only applies to TOC and crawl mode; scraping one page at a time",
+    );
+  });
+
+  it("follows the next link and logs why it was chosen", async () => {
+    process.argv = [
+      "node",
+      "scrape.ts",
+      "https://example.com/book",
+      "--mode",
+      "navigate",
+      "--wait",
+      "0",
+      "--delay",
+      "0",
+      "--next-text",
+      "Onward",
+      "--next-selector",
+      ".next-chapter",
+    ];
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce(true) // isValidSelector
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>One</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce({ url: "https://example.com/two", reason: 'button "Onward" matches "onward"' })
+      .mockResolvedValueOnce({
+        title: "Chapter 2",
+        titles: { h1: "Chapter 2", og: null, title: null },
+        html: "<p>Two</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockPage.evaluate.mock.calls[0][1]).toBe(".next-chapter");
+    const nextScript = mockPage.evaluate.mock.calls[3][0] as string;
+    expect(nextScript).toContain('"onward"]');
+    expect(nextScript).toContain('".next-chapter"');
+    expect(mockPage.goto).toHaveBeenCalledWith("https://example.com/two", expect.anything());
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      '      next: https://example.com/two (button "Onward" matches "onward")',
+    );
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/002-chapter-2\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("exits with error for an invalid --next-selector before scraping", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate", "--next-selector", "a[href"];
+    mockPage.evaluate.mockResolvedValueOnce(false);
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith('Error: Invalid --next-selector "a[href"');
+    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(mockPage.goto).not.toHaveBeenCalled();
+  });
+
+  it("exits with error for an unknown mode", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "spider"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Unknown --mode "spider"'));
+  });
+
+  it("exits with error for an unknown title source", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--title-source", "slug"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Unknown --title-source "slug"'));
+  });
+
+  it("closes browser after completion", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockBrowser.close).toHaveBeenCalled();
+  });
+
+  it("closes browser even on error", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.goto.mockRejectedValueOnce(new Error("Network error"));
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it("expands collapsible content before extracting each chapter", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(expandCollapsibleContent).toHaveBeenCalledWith(mockPage);
+  });
+
+  it("waits for the readiness strategy instead of a fixed delay", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--ready", "records", "--ready-timeout", "3000"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(waitForReady).toHaveBeenCalledWith(mockPage, { strategy: "records", selector: null, timeout: 3000 });
+  });
+
+  it("extracts anyway when the page is not ready in time", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--ready", "network-idle"];
+    // Start page and chapter page both time out
+    vi.mocked(waitForReady).mockResolvedValueOnce(false).mockResolvedValueOnce(false);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining("Page not ready after 15000ms (network-idle)"));
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/001-chapter-1\.md$/), expect.any(String), "utf-8");
+  });
+
+  it("creates the page with animations disabled when requested", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--disable-animations"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(createPage).toHaveBeenCalledWith(mockBrowser, { disableAnimations: true });
+  });
+
+  it("does not scroll pages by default", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(autoScroll).not.toHaveBeenCalled();
+  });
+
+  it("scrolls each page when --scroll is set", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--scroll", "--scroll-step", "400"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    // Start page (TOC detection) and the chapter page itself
+    expect(autoScroll).toHaveBeenCalledTimes(2);
+    expect(autoScroll).toHaveBeenCalledWith(mockPage, { step: 400, pause: 200 });
+  });
+
+  it("handles empty page content gracefully", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([]) // extractTocLinks - no TOC links
+      .mockResolvedValueOnce({
+        title: "Empty Chapter",
+        titles: { h1: "Empty Chapter", og: null, title: null },
+        html: "",
+        imageUrls: [],
+      }) // empty content
+      .mockResolvedValueOnce(null); // no next link
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    // Should still write the chapter file even with empty content
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/output\/chapters\/001-empty-chapter\.md$/),
+      expect.stringContaining("# Empty Chapter"),
+      "utf-8",
+    );
+  });
+
+  it("handles unicode in chapter titles", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([]) // extractTocLinks
+      .mockResolvedValueOnce({
+        title: "Глава 1: Введение",
+        titles: { h1: "Глава 1: Введение", og: null, title: null },
+        html: "<p>Содержимое</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    // Verify unicode filename is created correctly
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(/output\/chapters\/001-глава-1-введение\.md$/),
+      expect.any(String),
+      "utf-8",
+    );
+  });
+
+  it("truncates extremely long titles in filenames", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    const longTitle =
+      "This is an extremely long chapter title that definitely exceeds the fifty character limit for filenames";
+    mockPage.evaluate
+      .mockResolvedValueOnce([]) // extractTocLinks
+      .mockResolvedValueOnce({
+        title: longTitle,
+        titles: { h1: longTitle, og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    // Filename should be truncated (001- prefix + max 50 chars + .md)
+    const writeCall = vi
+      .mocked(fs.writeFile)
+      .mock.calls.find((call) => typeof call[0] === "string" && call[0].includes("chapters"));
+    expect(writeCall).toBeDefined();
+    const filePath = writeCall?.[0] as string;
+    const filename = filePath.split("/").pop() ?? "";
+    // 001- (4) + sanitized title (max 50) + .md (3) = max 57 chars
+    expect(filename.length).toBeLessThanOrEqual(57);
+  });
+
+  it("shows help and exits with code 0 when --help flag is provided", async () => {
+    process.argv = ["node", "scrape.ts", "--help"];
+
+    mockExit.mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    const { main } = await import("./scrape.js");
+
+    await expect(main()).rejects.toThrow("process.exit called");
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
+    expect(mockExit).toHaveBeenCalledWith(0);
+  });
+
+  it("shows warning when images fail to download", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book"];
+
+    // Mock fetchWithRetry to fail for image downloads
+    vi.mocked(fetchWithRetry).mockResolvedValue({
+      ok: false,
+      status: 404,
+    } as Response);
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([]) // extractTocLinks
+      .mockResolvedValueOnce({
+        title: "Chapter with Images",
+        titles: { h1: "Chapter with Images", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: ["https://example.com/image1.png", "https://example.com/image2.png"],
+      })
+      .mockResolvedValueOnce(null); // no next link
 
     const { main } = await import("./scrape.js");
     await main();
@@ -658,6 +2109,138 @@ describe("main", () => {
     expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining("Warning: 2 image(s) failed to download"));
   });
 
+  it("saves the rendered HTML of each chapter with --save-raw", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate", "--save-raw"];
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce("<html><body>Rendered</body></html>") // snapshotWithLayout
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(fs.mkdir).toHaveBeenCalledWith("output/raw", { recursive: true });
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      "output/raw/001-chapter-1.html",
+      "<html><body>Rendered</body></html>",
+      "utf-8",
+    );
+    expect(mockPage.evaluate.mock.calls[1]).toEqual([snapshotWithLayout]);
+  });
+
+  it("does not save raw HTML by default", async () => {
+    process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate"];
+    mockPage.content = vi.fn();
+
+    mockPage.evaluate
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce({
+        title: "Chapter 1",
+        titles: { h1: "Chapter 1", og: null, title: null },
+        html: "<p>Content</p>",
+        imageUrls: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    const { main } = await import("./scrape.js");
+    await main();
+
+    expect(mockPage.content).not.toHaveBeenCalled();
+    expect(fs.mkdir).not.toHaveBeenCalledWith("output/raw", expect.anything());
+  });
+
+  describe("network archives", () => {
+    function mockArchive(mode: "record" | "replay", missing: string[] = []) {
+      const archive = {
+        mode,
+        dir: "archive",
+        size: 2,
+        missing: new Set(missing),
+        fetch: vi.fn(),
+        attach: vi.fn().mockResolvedValue(undefined),
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+      vi.mocked(openNetworkArchive).mockResolvedValue(archive);
+      return archive;
+    }
+
+    function mockNavigationChapter() {
+      mockPage.evaluate
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce({
+          title: "Chapter 1",
+          titles: { h1: "Chapter 1", og: null, title: null },
+          html: "<p>Content</p>",
+          imageUrls: [],
+        })
+        .mockResolvedValueOnce(null);
+    }
+
+    it("records the responses of every page with --record", async () => {
+      process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate", "--record", "archive"];
+      const archive = mockArchive("record");
+      mockNavigationChapter();
+
+      const { main } = await import("./scrape.js");
+      await main();
+
+      expect(openNetworkArchive).toHaveBeenCalledWith("archive", "record");
+      expect(archive.attach).toHaveBeenCalledWith(mockPage);
+      expect(archive.save).toHaveBeenCalled();
+      expect(mockConsoleLog).toHaveBeenCalledWith("Recorded 2 responses to archive");
+    });
+
+    it("lists requests missing from a replayed archive", async () => {
+      process.argv = ["node", "scrape.ts", "https://example.com/book", "--mode", "navigate", "--replay", "archive"];
+      const archive = mockArchive("replay", ["https://example.com/analytics.js"]);
+      mockNavigationChapter();
+
+      const { main } = await import("./scrape.js");
+      await main();
+
+      expect(openNetworkArchive).toHaveBeenCalledWith("archive", "replay");
+      expect(archive.attach).toHaveBeenCalledWith(mockPage);
+      expect(archive.save).not.toHaveBeenCalled();
+      expect(mockConsoleLog).toHaveBeenCalledWith("Replaying 2 recorded responses from archive");
+      expect(mockConsoleLog).toHaveBeenCalledWith("Warning: 1 request(s) could not be replayed from the archive:");
+      expect(mockConsoleLog).toHaveBeenCalledWith("  https://example.com/analytics.js");
+    });
+
+    it("exits with error when the archive cannot be opened", async () => {
+      process.argv = ["node", "scrape.ts", "https://example.com/book", "--replay", "archive"];
+      vi.mocked(openNetworkArchive).mockRejectedValue(new Error("No archive.json found"));
+      mockExit.mockImplementation(() => {
+        throw new Error("process.exit called");
+      });
+
+      const { main } = await import("./scrape.js");
+      await expect(main()).rejects.toThrow("process.exit called");
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        "Error: Cannot open network archive archive: No archive.json found",
+      );
+      expect(launchBrowser).not.toHaveBeenCalled();
+    });
+
+    it("rejects --record combined with --replay", async () => {
+      process.argv = ["node", "scrape.ts", "https://example.com/book", "--record", "a", "--replay", "b"];
+      mockExit.mockImplementation(() => {
+        throw new Error("process.exit called");
+      });
+
+      const { main } = await import("./scrape.js");
+      await expect(main()).rejects.toThrow("process.exit called");
+
+      expect(mockConsoleError).toHaveBeenCalledWith("Error: --record cannot be combined with --replay");
+    });
+  });
+
   it("replaces remote image URLs with local paths when images download successfully", async () => {
     process.argv = ["node", "scrape.ts", "https://example.com/book"];
 
@@ -673,6 +2256,7 @@ describe("main", () => {
       .mockResolvedValueOnce([]) // extractTocLinks
       .mockResolvedValueOnce({
         title: "Chapter with Images",
+        titles: { h1: "Chapter with Images", og: null, title: null },
         html: `<p>Content with image</p><img src="${imageUrl}">`,
         imageUrls: [imageUrl],
       })
@@ -690,5 +2274,81 @@ describe("main", () => {
     // Remote URL should be replaced with local path
     expect(content).toContain("../images/img-");
     expect(content).not.toContain(imageUrl);
+
+    // The mapping is kept in meta.json for reprocessing
+    const metaCall = vi.mocked(fs.writeFile).mock.calls.find((call) => String(call[0]).endsWith("meta.json"));
+    const meta = JSON.parse(metaCall?.[1] as string);
+    expect(meta.chapters[0].images).toEqual({ [imageUrl]: expect.stringMatching(/^img-\d{4}\.jpg$/) });
+  });
+});
+
+describe("trimCommonSections", () => {
+  it("drops headings shared by every link", () => {
+    const links = [
+      { url: "a", text: "a", sections: ["Book", "Part I"] },
+      { url: "b", text: "b", sections: ["Book", "Part II", "Muscles"] },
+    ];
+
+    expect(trimCommonSections(links)).toEqual([
+      { url: "a", text: "a", sections: ["Part I"] },
+      { url: "b", text: "b", sections: ["Part II", "Muscles"] },
+    ]);
+  });
+
+  it("keeps sections when links share no prefix", () => {
+    const links = [
+      { url: "a", text: "a", sections: [] },
+      { url: "b", text: "b", sections: ["Part I"] },
+    ];
+
+    expect(trimCommonSections(links)).toEqual(links);
+  });
+
+  it("clears sections when all links are under the same heading", () => {
+    const links = [
+      { url: "a", text: "a", sections: ["Contents"] },
+      { url: "b", text: "b", sections: ["Contents"] },
+    ];
+
+    expect(trimCommonSections(links).map((link) => link.sections)).toEqual([[], []]);
+  });
+
+  it("handles an empty list", () => {
+    expect(trimCommonSections([])).toEqual([]);
+  });
+});
+
+describe("chooseTitle", () => {
+  const titles = { h1: "Site Name", og: "Chapter (OG)", title: "Chapter | Site" };
+
+  it("prefers the requested source", () => {
+    expect(chooseTitle("toc", "Lesson 1", titles)).toBe("Lesson 1");
+    expect(chooseTitle("h1", "Lesson 1", titles)).toBe("Site Name");
+    expect(chooseTitle("og", "Lesson 1", titles)).toBe("Chapter (OG)");
+    expect(chooseTitle("title", "Lesson 1", titles)).toBe("Chapter | Site");
+  });
+
+  it("falls back in toc, h1, og, title order", () => {
+    expect(chooseTitle("toc", null, titles)).toBe("Site Name");
+    expect(chooseTitle("og", "  ", { h1: null, og: null, title: "Doc" })).toBe("Doc");
+    expect(chooseTitle("title", "Lesson 1", { h1: null, og: null, title: null })).toBe("Lesson 1");
+  });
+
+  it("returns Untitled when no source has a title", () => {
+    expect(chooseTitle("toc", null, { h1: null, og: null, title: null })).toBe("Untitled");
+  });
+});
+
+describe("withTitleHeading", () => {
+  it("adds the title when the content has no heading", () => {
+    expect(withTitleHeading("Text", "Lesson")).toBe("# Lesson\n\nText");
+  });
+
+  it("replaces a different leading H1", () => {
+    expect(withTitleHeading("# Site Name\n\nText", "Lesson")).toBe("# Lesson\n\nText");
+  });
+
+  it("keeps content that starts with a lower-level heading", () => {
+    expect(withTitleHeading("## Intro\n\nText", "Lesson")).toBe("## Intro\n\nText");
   });
 });
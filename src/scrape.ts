@@ -1,23 +1,105 @@
 /**
  * Scrape book chapters from Tilda-based websites
  *
- * Usage: npm run scrape -- <start-url> [options]
+ * Usage: npm run scrape -- <start-url|path> [options]
+ *        npm run scrape -- --urls-file <path> [options]
+ *        npm run scrape -- --update [options]
  * Example: npm run scrape -- https://example.com/book --wait 1000 --delay 1000
+ *          npm run scrape -- ./tilda-export --delay 0
  *
  * Options:
  *   --wait ms           Page render wait time (default: 1000)
  *   --delay ms          Delay between chapters (default: 1000)
  *   --skip <url>        Skip specific URL (can be used multiple times)
  *   --url-pattern <p>   Only include URLs matching glob pattern
+ *   --skip-decorative-bg  Skip full-width background images (covers)
+ *   --scroll            Scroll through each page to trigger lazy loading
+ *   --scroll-step px    Scroll distance per step (default: 600)
+ *   --scroll-pause ms   Pause after each scroll step (default: 200)
+ *   --ready <strategy>  Readiness signal: delay, network-idle, selector, records, text-stable (default: delay)
+ *   --ready-selector <css>  Wait for this selector (implies --ready selector)
+ *   --ready-timeout ms  Hard limit on readiness waits (default: 15000)
+ *   --disable-animations  Show Tilda reveal-animated content without waiting for animations
+ *   --title-source <s>  Chapter title source: toc, h1, og, title (default: toc, falling back in that order)
+ *   --mode <mode>       Chapter discovery: toc, navigate, crawl, auto (default: auto, scored from the start page)
+ *   --next-text <p>     Extra "next" link phrase (can be used multiple times)
+ *   --next-selector <css>  CSS selector for the next chapter link
+ *   --source <s>        Chapter source: page (links on the start page) or sitemap (default: page)
+ *   --sitemap-order <o> Sitemap page order: sitemap, natural, lastmod (default: sitemap)
+ *   --urls-file <path>  Scrape the URLs listed in a file (one per line, optional "# title"), in order
+ *   --max-depth <n>     Crawl mode: link depth from the start page (default: 3)
+ *   --max-pages <n>     Crawl mode: maximum chapter pages visited (default: 100)
+ *   --crawl-prefix <p>  Crawl mode: only follow links under this path (default: start URL's directory)
+ *   --crawl-order <o>   Crawl mode: chapter order, discovery or url (default: discovery)
+ *   --concurrency <n>   TOC and crawl mode: chapters scraped in parallel pages (default: 1)
+ *   --resume            Continue an interrupted scrape from output/checkpoint.json
+ *   --update            Re-scrape the book in output/, rewriting only new and changed chapters
+ *   --save-raw          Save each chapter's rendered HTML to output/raw/ for `npm run reprocess`
+ *   --record <dir>      Save every network response to an archive directory
+ *   --replay <dir>      Serve all requests from an archive recorded with --record, without network access
  */
 
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import type { Page } from "puppeteer";
+import type { Browser, Page } from "puppeteer";
 import sharp from "sharp";
-import TurndownService from "turndown";
-import { createPage, launchBrowser } from "./browser.js";
+import { type NetworkArchive, openNetworkArchive } from "./archive.js";
+import {
+  autoScroll,
+  createPage,
+  DEFAULT_READY_TIMEOUT,
+  expandCollapsibleContent,
+  launchBrowser,
+  type PageOptions,
+  type ReadyOptions,
+  type ReadyStrategy,
+  type ScrollOptions,
+  waitForReady,
+} from "./browser.js";
+import {
+  type Checkpoint,
+  createCheckpoint,
+  createCheckpointWriter,
+  readCheckpoint,
+  recordChapter,
+  recordFailure,
+} from "./checkpoint.js";
+import {
+  CRAWL_ORDERS,
+  type CrawlOrder,
+  crawlPages,
+  defaultCrawlPrefix,
+  extractPageLinks,
+  orderCrawledPages,
+} from "./crawl.js";
+import {
+  buildExtractionScript,
+  type ChapterContent,
+  type ExtractionOptions,
+  type PageTitles,
+  snapshotWithLayout,
+} from "./extractors.js";
+import { isFileUrl, readLocalFile, resolveStartUrl } from "./local.js";
+import { htmlToMarkdown } from "./markdown.js";
+import {
+  extractPageSignals,
+  MODE_OPTIONS,
+  type ModeDecision,
+  type ModeOption,
+  type ScrapeMode,
+  scoreTocPage,
+} from "./mode.js";
+import { DEFAULT_NEXT_PHRASES, findNextLink, isValidSelector, type NextLinkOptions } from "./navigation.js";
+import { fetchSitemapEntries, orderSitemapEntries, SITEMAP_ORDERS, type SitemapOrder } from "./sitemap.js";
 import type { BookMeta, ChapterMeta } from "./types.js";
+import {
+  hashChapterContent,
+  nextFreeImageIndex,
+  printChangeSummary,
+  readBookMeta,
+  summarizeChanges,
+} from "./update.js";
+import { readUrlList, type UrlListEntry } from "./urllist.js";
 import {
   fetchWithRetry,
   getBaseUrl,
@@ -25,10 +107,13 @@ import {
   getNullableStringArg,
   getNumberArg,
   getPositionalArg,
+  getStringArg,
   globToRegex,
+  hasFlag,
   hasHelpFlag,
   onInterrupt,
   sanitizeFilename,
+  setFetchHandler,
   setupSignalHandlers,
   transformTildaImageUrl,
   validateUrl,
@@ -37,23 +122,51 @@ import {
 const OUTPUT_DIR = "output";
 const CHAPTERS_DIR = path.join(OUTPUT_DIR, "chapters");
 const IMAGES_DIR = path.join(OUTPUT_DIR, "images");
+const RAW_DIR = path.join(OUTPUT_DIR, "raw");
+const CHECKPOINT_PATH = path.join(OUTPUT_DIR, "checkpoint.json");
+const META_PATH = path.join(OUTPUT_DIR, "meta.json");
+// Chapter files of the book being updated, until the update finishes
+const PREVIOUS_CHAPTERS_DIR = path.join(OUTPUT_DIR, "chapters.previous");
 
 // Default timing values (in ms)
 const DEFAULT_PAGE_WAIT = 1000; // Wait after page load for JS rendering
 const DEFAULT_CHAPTER_DELAY = 1000; // Delay between chapters (+ random 0-500ms)
+const DEFAULT_SCROLL_STEP = 600; // Scroll distance per step, under one viewport height (px)
+const DEFAULT_SCROLL_PAUSE = 200; // Pause after each scroll step for lazy images to load
 
-// Tilda block types to skip during content extraction
-// These are navigation, menu, and non-content blocks
-const TILDA_SKIP_BLOCK_TYPES = [
-  "229", // Header/menu block
-  "228", // Header/menu block (alternate)
-  "702", // Cover/hero block
-  "210", // Form block
-];
+// Default crawl limits
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_PAGES = 100;
+// Pages visited in all per --max-pages page, bounding crawls where most pages miss --url-pattern
+const CRAWL_VISITS_PER_PAGE = 5;
 
-// Minimum number of links to consider a page as a table of contents
-// Pages with fewer links are treated as chapter pages with "next" navigation
-const TOC_LINK_THRESHOLD = 20;
+// Replay mode: requests missing from the archive listed in the summary
+const MAX_LISTED_MISSING = 10;
+
+/**
+ * Where a chapter title comes from:
+ * - `toc`: link text on the table of contents page (TOC mode only)
+ * - `h1`: first h1 on the chapter page
+ * - `og`: og:title meta tag
+ * - `title`: document <title>
+ */
+export type TitleSource = "toc" | "h1" | "og" | "title";
+
+/** Title sources in fallback order */
+const TITLE_SOURCES: TitleSource[] = ["toc", "h1", "og", "title"];
+
+/**
+ * Where chapter links come from:
+ * - `page`: links on the start page (TOC), or "Next" links from it (navigation)
+ * - `sitemap`: pages listed in the site's sitemap.xml
+ */
+export type ChapterSource = "page" | "sitemap";
+
+/** Accepted values for --source */
+const CHAPTER_SOURCES: ChapterSource[] = ["page", "sitemap"];
+
+/** Accepted values for --ready */
+const READY_STRATEGIES: ReadyStrategy[] = ["delay", "network-idle", "selector", "records", "text-stable"];
 
 /**
  * Tracks image download statistics during scraping.
@@ -87,27 +200,141 @@ export interface ScraperOptions {
   skipUrls: string[];
   /** Glob pattern to filter URLs */
   urlPattern: string | null;
+  /** Skip full-width background images (covers, section backgrounds) */
+  skipDecorativeBg: boolean;
+  /** Scroll through each page before extracting */
+  scroll: boolean;
+  /** Scroll distance per step (px) */
+  scrollStep: number;
+  /** Pause after each scroll step (ms) */
+  scrollPause: number;
+  /** Readiness strategy name (validated in main) */
+  readyStrategy: string;
+  /** CSS selector for the selector readiness strategy */
+  readySelector: string | null;
+  /** Hard limit on readiness waits (ms) */
+  readyTimeout: number;
+  /** Force reveal-animated elements into their final state */
+  disableAnimations: boolean;
+  /** Preferred chapter title source (validated in main) */
+  titleSource: string;
+  /** Chapter discovery mode or "auto" (validated in main) */
+  mode: string;
+  /** Extra "next" link phrases, added to the built-in ones */
+  nextPhrases: string[];
+  /** CSS selector for the next chapter link */
+  nextSelector: string | null;
+  /** Chapter link source (validated in main) */
+  source: string;
+  /** Sitemap page order (validated in main) */
+  sitemapOrder: string;
+  /** File listing chapter URLs in order, used instead of discovery */
+  urlsFile: string | null;
+  /** Crawl mode: link depth from the start page */
+  maxDepth: number;
+  /** Crawl mode: maximum chapter pages visited */
+  maxPages: number;
+  /** Crawl mode: path prefix for followed links, or null for the start URL's directory */
+  crawlPrefix: string | null;
+  /** Crawl mode: chapter order (validated in main) */
+  crawlOrder: string;
+  /** Number of chapters scraped in parallel (TOC and crawl mode) */
+  concurrency: number;
+  /** Continue from the checkpoint of an interrupted scrape */
+  resume: boolean;
+  /** Re-scrape the book in output/, rewriting only new and changed chapters */
+  update: boolean;
+  /** Save each chapter's rendered HTML to output/raw/ */
+  saveRaw: boolean;
+  /** Directory to record network responses to */
+  record: string | null;
+  /** Directory of recorded network responses to replay */
+  replay: string | null;
   /** Whether to show help and exit */
   showHelp: boolean;
 }
 
+/** How chapter content and titles are extracted */
+export interface ChapterOptions {
+  /** Options passed to the block extractors */
+  extraction: ExtractionOptions;
+  /** Preferred title source; the others are tried in order when it's missing */
+  titleSource: TitleSource;
+  /** Chapters of the book being updated by URL, reused when their content hash is unchanged */
+  previous: Map<string, ChapterMeta> | null;
+  /** Save the rendered HTML of each chapter to output/raw/ */
+  saveRaw: boolean;
+}
+
+/** Crawl mode settings */
+export interface CrawlSettings {
+  /** Link depth from the start page */
+  maxDepth: number;
+  /** Maximum chapter pages visited (pages matching --url-pattern) */
+  maxPages: number;
+  /** Path prefix for followed links, or null for the start URL's directory */
+  prefix: string | null;
+  /** Chapter order */
+  order: CrawlOrder;
+}
+
+/** How each page is loaded and prepared before extraction */
+export interface PageLoadOptions {
+  /** Wait time after page load for JS rendering, used by the delay strategy (ms) */
+  pageWait: number;
+  /** Readiness strategy used instead of (or, for delay, alongside) pageWait */
+  ready: ReadyOptions;
+  /** Scroll-through settings, or null to skip scrolling */
+  scroll: ScrollOptions | null;
+}
+
 /**
  * Print usage information for the scrape command.
  */
 function showUsage(): void {
-  console.log("Usage: npm run scrape -- <start-url> [options]");
+  console.log("Usage: npm run scrape -- <start-url|path> [options]");
+  console.log("       npm run scrape -- --urls-file <path> [options]");
+  console.log("       npm run scrape -- --update [options]");
   console.log("");
   console.log("Scrape book chapters from a Tilda-based website.");
+  console.log("The start URL may also be a file:// URL, an HTML file or a directory with an index.html.");
   console.log("");
   console.log("Options:");
   console.log("  --wait <ms>          Page render wait time (default: 1000)");
   console.log("  --delay <ms>         Delay between chapters (default: 1000)");
   console.log("  --skip <url>         Skip specific URL (can be used multiple times)");
   console.log("  --url-pattern <p>    Only include URLs matching glob pattern");
+  console.log("  --skip-decorative-bg Skip full-width background images (covers)");
+  console.log("  --scroll             Scroll through each page to trigger lazy loading");
+  console.log(`  --scroll-step <px>   Scroll distance per step (default: ${DEFAULT_SCROLL_STEP})`);
+  console.log(`  --scroll-pause <ms>  Pause after each scroll step (default: ${DEFAULT_SCROLL_PAUSE})`);
+  console.log("  --ready <strategy>   Readiness signal: delay, network-idle, selector, records,");
+  console.log("                       text-stable (default: delay, which uses --wait)");
+  console.log("  --ready-selector <s> Wait for a CSS selector (implies --ready selector)");
+  console.log(`  --ready-timeout <ms> Hard limit on readiness waits (default: ${DEFAULT_READY_TIMEOUT})`);
+  console.log("  --disable-animations Show reveal-animated content without waiting for animations");
+  console.log("  --title-source <s>   Chapter title source: toc, h1, og, title (default: toc)");
+  console.log("  --mode <mode>        Chapter discovery: toc, navigate, crawl, auto (default: auto)");
+  console.log('  --next-text <p>      Extra "next" link phrase (can be used multiple times)');
+  console.log("  --next-selector <s>  CSS selector for the next chapter link");
+  console.log("  --source <s>         Chapter source: page, sitemap (default: page)");
+  console.log("  --sitemap-order <o>  Sitemap page order: sitemap, natural, lastmod (default: sitemap)");
+  console.log('  --urls-file <path>   Scrape the URLs listed in a file (one per line, optional "# title")');
+  console.log(`  --max-depth <n>      Crawl mode: link depth from the start page (default: ${DEFAULT_MAX_DEPTH})`);
+  console.log(`  --max-pages <n>      Crawl mode: maximum chapter pages visited (default: ${DEFAULT_MAX_PAGES})`);
+  console.log("  --crawl-prefix <p>   Crawl mode: only follow links under this path (default: start URL's directory)");
+  console.log("  --crawl-order <o>    Crawl mode: chapter order, discovery or url (default: discovery)");
+  console.log("  --concurrency <n>    TOC and crawl mode: chapters scraped in parallel pages (default: 1)");
+  console.log("  --resume             Continue an interrupted scrape from output/checkpoint.json");
+  console.log("  --update             Re-scrape the book in output/, rewriting only new and changed chapters");
+  console.log("  --save-raw           Save each chapter's rendered HTML to output/raw/ for npm run reprocess");
+  console.log("  --record <dir>       Save every network response to an archive directory");
+  console.log("  --replay <dir>       Serve all requests from an archive recorded with --record (no network)");
   console.log("  --help, -h           Show this help message");
   console.log("");
   console.log("Example:");
   console.log("  npm run scrape -- https://example.com/book --wait 2000");
+  console.log("  npm run scrape -- ./tilda-export --delay 0");
 }
 
 /**
@@ -117,27 +344,69 @@ function showUsage(): void {
  * @returns Parsed scraper options
  */
 /** Flags that take values, used for positional argument detection */
-const SCRAPER_VALUE_FLAGS = ["--wait", "--delay", "--skip", "--url-pattern"];
+const SCRAPER_VALUE_FLAGS = [
+  "--wait",
+  "--delay",
+  "--skip",
+  "--url-pattern",
+  "--scroll-step",
+  "--scroll-pause",
+  "--ready",
+  "--ready-selector",
+  "--ready-timeout",
+  "--title-source",
+  "--mode",
+  "--next-text",
+  "--next-selector",
+  "--source",
+  "--sitemap-order",
+  "--urls-file",
+  "--max-depth",
+  "--max-pages",
+  "--crawl-prefix",
+  "--crawl-order",
+  "--concurrency",
+  "--record",
+  "--replay",
+];
 
 export function parseArgs(args: string[] = process.argv.slice(2)): ScraperOptions {
+  const readySelector = getNullableStringArg(args, "--ready-selector");
   return {
     startUrl: getPositionalArg(args, SCRAPER_VALUE_FLAGS),
     pageWait: getNumberArg(args, "--wait", DEFAULT_PAGE_WAIT),
     chapterDelay: getNumberArg(args, "--delay", DEFAULT_CHAPTER_DELAY),
     skipUrls: getMultiStringArg(args, "--skip"),
     urlPattern: getNullableStringArg(args, "--url-pattern"),
+    skipDecorativeBg: hasFlag(args, "--skip-decorative-bg"),
+    scroll: hasFlag(args, "--scroll"),
+    scrollStep: getNumberArg(args, "--scroll-step", DEFAULT_SCROLL_STEP),
+    scrollPause: getNumberArg(args, "--scroll-pause", DEFAULT_SCROLL_PAUSE),
+    readyStrategy: getStringArg(args, "--ready", readySelector ? "selector" : "delay"),
+    readySelector,
+    readyTimeout: getNumberArg(args, "--ready-timeout", DEFAULT_READY_TIMEOUT),
+    disableAnimations: hasFlag(args, "--disable-animations"),
+    titleSource: getStringArg(args, "--title-source", "toc"),
+    mode: getStringArg(args, "--mode", "auto"),
+    nextPhrases: getMultiStringArg(args, "--next-text"),
+    nextSelector: getNullableStringArg(args, "--next-selector"),
+    source: getStringArg(args, "--source", "page"),
+    sitemapOrder: getStringArg(args, "--sitemap-order", "sitemap"),
+    urlsFile: getNullableStringArg(args, "--urls-file"),
+    maxDepth: getNumberArg(args, "--max-depth", DEFAULT_MAX_DEPTH),
+    maxPages: getNumberArg(args, "--max-pages", DEFAULT_MAX_PAGES),
+    crawlPrefix: getNullableStringArg(args, "--crawl-prefix"),
+    crawlOrder: getStringArg(args, "--crawl-order", "discovery"),
+    concurrency: getNumberArg(args, "--concurrency", 1),
+    resume: hasFlag(args, "--resume"),
+    update: hasFlag(args, "--update"),
+    saveRaw: hasFlag(args, "--save-raw"),
+    record: getNullableStringArg(args, "--record"),
+    replay: getNullableStringArg(args, "--replay"),
     showHelp: hasHelpFlag(args),
   };
 }
 
-const markdownConverter = new TurndownService({
-  headingStyle: "atx",
-  codeBlockStyle: "fenced",
-});
-
-// Remove script/style elements from conversion
-markdownConverter.remove(["script", "style", "noscript", "iframe"]);
-
 /**
  * Wait for specified milliseconds.
  *
@@ -148,6 +417,32 @@ export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Create a per-host throttle that spaces out request starts.
+ * Parallel pages share one throttle, so a host never sees requests closer together than the interval.
+ *
+ * @param interval - Minimum time between request starts to the same host (ms)
+ * @returns Function that waits until a request to the URL's host may start
+ *
+ * @example
+ * const throttle = createHostThrottle(1000);
+ * await throttle('https://a.com/one'); // immediately
+ * await throttle('https://a.com/two'); // 1s after the first
+ */
+export function createHostThrottle(interval: number): (url: string) => Promise<void> {
+  const nextStart = new Map<string, number>();
+  return async (url) => {
+    const host = new URL(url).host;
+    const now = Date.now();
+    // Reserve the slot before waiting so concurrent callers queue up behind each other
+    const start = Math.max(now, nextStart.get(host) ?? 0);
+    nextStart.set(host, start + interval);
+    if (start > now) {
+      await delay(start - now);
+    }
+  };
+}
+
 /**
  * Display a progress bar in the terminal.
  * Shows percentage, counts, and current item title.
@@ -179,6 +474,7 @@ export function progressBar(current: number, total: number, title: string): void
  * Transforms Tilda placeholder URLs to actual image URLs.
  * Falls back to original URL if transformed URL fails.
  * Uses exponential backoff retry for transient failures.
+ * Images of pages on disk (file:// URLs) are read from disk instead.
  *
  * @param url - The image URL to download
  * @param index - Image index for filename generation
@@ -190,6 +486,10 @@ export async function downloadImage(url: string, index: number, stats?: ImageSta
   const actualUrl = transformTildaImageUrl(url);
 
   try {
+    if (isFileUrl(url)) {
+      return await saveImage(await readLocalFile(url), index, stats);
+    }
+
     const response = await fetchWithRetry(actualUrl);
     if (!response.ok) {
       // If optimized URL fails, try original
@@ -241,338 +541,584 @@ export async function saveImage(buffer: Buffer, index: number, stats?: ImageStat
   }
 }
 
-async function extractChapterContent(page: Page): Promise<{ title: string; html: string; imageUrls: string[] }> {
-  return await page.evaluate((skipBlockTypes) => {
-    // Find the main content area - Tilda uses t-records containers
-    const records = document.querySelectorAll("[data-record-type]");
-
-    // Get page title from first h1 or og:title
-    const title =
-      document.querySelector("h1")?.textContent?.trim() ||
-      document.querySelector('meta[property="og:title"]')?.getAttribute("content") ||
-      "Untitled";
-
-    // Collect content from text and image blocks, excluding navigation and menu
-    const contentParts: string[] = [];
-    const imageUrls: string[] = [];
-
-    records.forEach((record) => {
-      const recordType = record.getAttribute("data-record-type");
-      // Skip menu, cover, and form blocks
-      if (skipBlockTypes.includes(recordType || "")) return;
-
-      // Get text content blocks
-      const textBlocks = record.querySelectorAll(
-        ".t-text, .t-title, .t-descr, .t-text-impact, " +
-          '[class*="t-text"], [class*="t-title"], ' +
-          ".t668__content, .t686__text, .t688__text",
-      );
-
-      textBlocks.forEach((block) => {
-        // Skip navigation buttons
-        if (block.closest(".t-btnflex") || block.closest('[class*="menu"]')) return;
-        const html = (block as HTMLElement).innerHTML;
-        if (html.trim()) contentParts.push(html);
-      });
-
-      // Get images from this record
-      const images = record.querySelectorAll("img[src]");
-      images.forEach((img) => {
-        const src = img.getAttribute("src");
-        if (src && (src.includes("tildacdn.com") || src.includes("static.tildacdn.com"))) {
-          imageUrls.push(src);
-          // Add image tag to content
-          const alt = img.getAttribute("alt") || "";
-          contentParts.push(`<img src="${src}" alt="${alt}">`);
-        }
-      });
-    });
-
-    // If no structured content found, try getting all text from t-records
-    if (contentParts.length === 0) {
-      const allRecords = document.querySelector("#allrecords");
-      if (allRecords) {
-        // Clone and remove unwanted elements
-        const clone = allRecords.cloneNode(true) as HTMLElement;
-        clone.querySelectorAll('[class*="menu"], .t-btnflex, script, style').forEach((el) => {
-          el.remove();
-        });
+/**
+ * Extract chapter content from the loaded page using the registered block extractors.
+ *
+ * @param page - Page with the chapter loaded
+ * @param options - Extraction options
+ * @returns Title, content HTML and image URLs
+ */
+async function extractChapterContent(page: Page, options: ExtractionOptions): Promise<ChapterContent> {
+  return (await page.evaluate(buildExtractionScript(options))) as ChapterContent;
+}
 
-        // Extract images
-        clone.querySelectorAll("img[src]").forEach((img) => {
-          const src = img.getAttribute("src");
-          if (src && (src.includes("tildacdn.com") || src.includes("static.tildacdn.com"))) {
-            imageUrls.push(src);
-          }
-        });
+/** A chapter link found on a table of contents page */
+export interface TocLink {
+  /** Absolute chapter URL */
+  url: string;
+  /** Link text, whitespace-collapsed (empty for image-only links) */
+  text: string;
+  /** Grouping headings above the link, outermost first (e.g., ['Part I', 'Muscles']) */
+  sections: string[];
+  /** Title override from --urls-file; used whatever --title-source says */
+  title?: string;
+}
 
-        contentParts.push(clone.innerHTML);
-      }
+/**
+ * Drop the leading sections shared by every link.
+ * A heading above the whole TOC (page or book title) groups nothing.
+ *
+ * @param links - TOC links in page order
+ * @returns Links with the common section prefix removed
+ *
+ * @example
+ * trimCommonSections([{ url: 'a', text: 'A', sections: ['Book', 'Part I'] }, { url: 'b', text: 'B', sections: ['Book', 'Part II'] }])
+ * // [{ url: 'a', text: 'A', sections: ['Part I'] }, { url: 'b', text: 'B', sections: ['Part II'] }]
+ */
+export function trimCommonSections(links: TocLink[]): TocLink[] {
+  if (links.length === 0) return links;
+  let common = Math.min(...links.map((link) => link.sections.length));
+  for (const link of links) {
+    while (common > 0 && link.sections.slice(0, common).some((title, i) => title !== links[0].sections[i])) {
+      common--;
     }
+  }
+  return links.map((link) => ({ ...link, sections: link.sections.slice(common) }));
+}
 
-    // Deduplicate content blocks (Tilda often has duplicate elements for responsive design)
-    // Compare by text content since HTML structure may differ between duplicates
-    const seen = new Set<string>();
-    const uniqueParts = contentParts.filter((part) => {
-      const trimmed = part.trim();
-      if (!trimmed) return false;
-      // Create a temporary element to extract content for comparison
-      const temp = document.createElement("div");
-      temp.innerHTML = trimmed;
-      // For images, use src as the key; for text content, use the text
-      const img = temp.querySelector("img");
-      const textKey = img ? img.getAttribute("src") || "" : temp.textContent?.trim() || "";
-      if (!textKey || seen.has(textKey)) return false;
-      seen.add(textKey);
-      return true;
-    });
-
-    return { title, html: uniqueParts.join("\n\n"), imageUrls };
-  }, TILDA_SKIP_BLOCK_TYPES);
-}
-
-async function extractTocLinks(page: Page, baseUrl: string): Promise<string[]> {
+async function extractTocLinks(page: Page, baseUrl: string): Promise<TocLink[]> {
   const baseHost = new URL(baseUrl).host;
-  return await page.evaluate(
-    (baseUrl, baseHost) => {
-      // Social media and external domains to skip
-      const SKIP_DOMAINS = ["t.me", "vk.com", "youtube.com", "instagram", "facebook", "twitter"];
-      // Patterns that indicate non-content links
-      const SKIP_PATTERNS = ["mailto:", "tel:", "#"];
-
-      // Check if href should be skipped
-      function shouldSkipHref(href: string): boolean {
-        const hasSkipPattern = SKIP_PATTERNS.some((p) => href.includes(p));
-        const hasSocialDomain = SKIP_DOMAINS.some((d) => href.includes(d));
-        return hasSkipPattern || hasSocialDomain;
-      }
+  const links = await page.evaluate((baseHost) => {
+    // Social media and external domains to skip
+    const SKIP_DOMAINS = ["t.me", "vk.com", "youtube.com", "instagram", "facebook", "twitter"];
+    // Patterns that indicate non-content links
+    const SKIP_PATTERNS = ["mailto:", "tel:", "#"];
+
+    // Check if href should be skipped
+    function shouldSkipHref(href: string): boolean {
+      const hasSkipPattern = SKIP_PATTERNS.some((p) => href.includes(p));
+      const hasSocialDomain = SKIP_DOMAINS.some((d) => href.includes(d));
+      return hasSkipPattern || hasSocialDomain;
+    }
 
-      // Check if element is inside navigation/menu
-      function isInNavigation(element: Element): boolean {
-        const menuNav = element.closest('[class*="menu"]') || element.closest('[class*="nav"]');
-        const tildaMenu = element.closest(".t228") || element.closest(".t229");
-        return Boolean(menuNav || tildaMenu);
-      }
+    // Check if element is inside navigation/menu
+    function isInNavigation(element: Element): boolean {
+      const menuNav = element.closest('[class*="menu"]') || element.closest('[class*="nav"]');
+      const tildaMenu = element.closest(".t228") || element.closest(".t229");
+      return Boolean(menuNav || tildaMenu);
+    }
 
-      // Check if URL should be included as a chapter link
-      function isValidChapterUrl(fullUrl: string, currentPath: string): boolean {
-        try {
-          const urlObj = new URL(fullUrl);
-          if (urlObj.host !== baseHost) return false;
-          if (urlObj.pathname === "/" || urlObj.pathname === "") return false;
-          return urlObj.pathname !== currentPath;
-        } catch {
-          return false;
-        }
+    // Check if URL should be included as a chapter link
+    function isValidChapterUrl(fullUrl: string, currentPath: string): boolean {
+      try {
+        const urlObj = new URL(fullUrl);
+        if (urlObj.host !== baseHost) return false;
+        if (urlObj.pathname === "/" || urlObj.pathname === "") return false;
+        return urlObj.pathname !== currentPath;
+      } catch {
+        return false;
       }
+    }
 
-      // Try to resolve href to full URL
-      function resolveHref(href: string): string | null {
-        try {
-          return new URL(href, baseUrl).href;
-        } catch {
-          return null;
-        }
+    // Try to resolve href to full URL, relative to the page like the browser does
+    // (pages on disk link to each other with paths relative to their own file)
+    function resolveHref(href: string): string | null {
+      try {
+        return new URL(href, document.baseURI).href;
+      } catch {
+        return null;
       }
+    }
 
-      const links: string[] = [];
-      const seen = new Set<string>();
-      const currentPath = window.location.pathname;
+    // Grouping headings (parts, sections) that appear between link lists
+    const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6, .t-title, .t-heading";
+    // Tilda styles headings by size class rather than tag (t-title_xl, t-heading_md, ...)
+    const SIZE_LEVELS: Record<string, number> = { xxl: 1, xl: 1, lg: 2, md: 3, sm: 4, xs: 5, xxs: 6 };
+
+    // Heading depth: tag level for h1-h6, size class for Tilda title divs
+    function headingLevel(element: Element): number {
+      const tagLevel = element.tagName.match(/^H([1-6])$/)?.[1];
+      if (tagLevel) return Number(tagLevel);
+      const size = element.className.match(/t-(?:title|heading)_([a-z]+)/)?.[1];
+      return (size && SIZE_LEVELS[size]) || 3;
+    }
 
-      for (const a of document.querySelectorAll("a[href]")) {
-        const href = a.getAttribute("href");
-        if (!href || shouldSkipHref(href)) continue;
+    // Check if a heading labels a group rather than being a link or part of a larger heading
+    function isGroupHeading(element: Element): boolean {
+      if (element.closest("a") || element.querySelector("a[href]")) return false;
+      return !element.parentElement?.closest(HEADING_SELECTOR) && !isInNavigation(element);
+    }
 
-        const fullUrl = resolveHref(href);
-        if (!fullUrl || !isValidChapterUrl(fullUrl, currentPath)) continue;
-        if (isInNavigation(a)) continue;
+    const links: { url: string; text: string; sections: string[] }[] = [];
+    const seen = new Set<string>();
+    const currentPath = window.location.pathname;
+    const headings: { level: number; title: string }[] = [];
+
+    // Track the open headings; a heading closes any open heading at the same or a deeper level
+    function enterHeading(element: Element): void {
+      const title = element.textContent?.replace(/\s+/g, " ").trim();
+      if (!title || !isGroupHeading(element)) return;
+      const level = headingLevel(element);
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, title });
+    }
 
-        if (!seen.has(fullUrl)) {
-          seen.add(fullUrl);
-          links.push(fullUrl);
-        }
-      }
+    // Resolve a link to a chapter URL, or null if it isn't one
+    function chapterUrl(a: Element): string | null {
+      const href = a.getAttribute("href");
+      if (!href || shouldSkipHref(href)) return null;
 
-      return links;
-    },
-    baseUrl,
-    baseHost,
-  );
-}
+      const fullUrl = resolveHref(href);
+      if (!fullUrl || !isValidChapterUrl(fullUrl, currentPath)) return null;
+      return isInNavigation(a) ? null : fullUrl;
+    }
 
-async function findNextChapterLink(page: Page, baseUrl: string): Promise<string | null> {
-  return await page.evaluate((baseUrl) => {
-    // Look for "next" navigation button
-    const nextButtons = document.querySelectorAll("a[href]");
-    for (const btn of nextButtons) {
-      const text = btn.textContent?.toLowerCase() || "";
-      // Common patterns: "next", "следующая" (Russian), "далее" (forward), "→"
-      if (text.includes("next") || text.includes("следующ") || text.includes("далее") || text.includes("→")) {
-        const href = btn.getAttribute("href");
-        if (href && !href.startsWith("#")) {
-          try {
-            return new URL(href, baseUrl).href;
-          } catch {
-            // Invalid URL, continue searching
-          }
-        }
+    for (const element of document.querySelectorAll(`a[href], ${HEADING_SELECTOR}`)) {
+      if (element.tagName !== "A") {
+        enterHeading(element);
+        continue;
+      }
+
+      const fullUrl = chapterUrl(element);
+      if (fullUrl && !seen.has(fullUrl)) {
+        seen.add(fullUrl);
+        links.push({
+          url: fullUrl,
+          text: element.textContent?.replace(/\s+/g, " ").trim() || "",
+          sections: headings.map((heading) => heading.title),
+        });
       }
     }
-    return null;
-  }, baseUrl);
+
+    return links;
+  }, baseHost);
+  return trimCommonSections(links);
+}
+
+/**
+ * Pick a chapter title: the preferred source if present, otherwise the first
+ * available one in toc → h1 → og → title order.
+ *
+ * @param source - Preferred title source
+ * @param tocText - Link text from the TOC page, or null outside TOC mode
+ * @param titles - Title candidates from the chapter page
+ * @returns Chosen title, or 'Untitled' if no source has one
+ *
+ * @example
+ * chooseTitle('toc', 'Skull', { h1: 'My Site', og: null, title: null }) // 'Skull'
+ * chooseTitle('og', 'Skull', { h1: 'My Site', og: null, title: null }) // 'Skull'
+ */
+export function chooseTitle(source: TitleSource, tocText: string | null, titles: PageTitles): string {
+  const candidates: Record<TitleSource, string | null> = { toc: tocText, ...titles };
+  const order = [source, ...TITLE_SOURCES.filter((s) => s !== source)];
+  for (const s of order) {
+    const title = candidates[s]?.trim();
+    if (title) return title;
+  }
+  return "Untitled";
+}
+
+/**
+ * Make the chapter Markdown start with the chosen title as its H1.
+ * A different leading H1 (e.g. the site name from a hero banner) is replaced,
+ * so merge.ts TOC anchors match the chapter heading.
+ *
+ * @param markdown - Converted chapter content
+ * @param title - Chapter title
+ * @returns Markdown starting with `# title`
+ */
+export function withTitleHeading(markdown: string, title: string): string {
+  const leadingH1 = markdown.match(/^# [^\n]*/);
+  if (leadingH1) {
+    return `# ${title}${markdown.slice(leadingH1[0].length)}`;
+  }
+  // Add title as H1 if not already present
+  return markdown.startsWith("#") ? markdown : `# ${title}\n\n${markdown}`;
+}
+
+/**
+ * Navigate to a URL and wait until its content has rendered.
+ *
+ * @param page - Page to navigate
+ * @param url - URL to load
+ * @param load - Wait and scroll settings
+ */
+async function loadPage(page: Page, url: string, load: PageLoadOptions): Promise<void> {
+  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+
+  // Wait for JS to render content
+  if (load.ready.strategy === "delay") {
+    await delay(load.pageWait);
+  } else if (!(await waitForReady(page, load.ready))) {
+    console.log(`  Page not ready after ${load.ready.timeout}ms (${load.ready.strategy}), extracting anyway`);
+  }
+
+  // Bring lazy images and animated blocks into view so they materialize
+  if (load.scroll) {
+    await autoScroll(page, load.scroll);
+  }
 }
 
 async function scrapeChapter(
   page: Page,
   url: string,
   index: number,
-  total: number | undefined,
-  pageWait: number,
+  load: PageLoadOptions,
   stats: ImageStats,
+  options: ChapterOptions,
+  tocText: string | null = null,
+  titleOverride: string | null = null,
 ): Promise<ChapterMeta> {
-  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  await loadPage(page, url, load);
 
-  // Wait for JS to render content
-  await delay(pageWait);
+  // Open accordions, tabs and "read more" blocks so hidden content is extracted
+  await expandCollapsibleContent(page);
+
+  // Rendered DOM, taken before extraction so `npm run reprocess` starts from the same state
+  let snapshot: string | null = null;
+  if (options.saveRaw) {
+    snapshot = await page.evaluate(snapshotWithLayout);
+  }
+  const { titles, html, imageUrls } = await extractChapterContent(page, options.extraction);
+  const title = titleOverride?.trim() || chooseTitle(options.titleSource, tocText, titles);
+  const contentHash = hashChapterContent(title, html);
+  const filename = chapterFilename(index, title);
 
-  const { title, html, imageUrls } = await extractChapterContent(page);
+  if (snapshot !== null) {
+    await fs.writeFile(path.join(RAW_DIR, rawSnapshotName(filename)), snapshot, "utf-8");
+  }
+
+  // Unchanged since the previous scrape: keep its file (and images) under the new number
+  const previous = options.previous?.get(url);
+  if (previous?.contentHash === contentHash && (await keepPreviousChapter(previous.filename, filename))) {
+    return { index, title, url, filename, contentHash, scrapedAt: previous.scrapedAt, images: previous.images };
+  }
 
   // Download images in parallel
   const uniqueUrls = [...new Set(imageUrls)];
   const downloadPromises = uniqueUrls.map(async (imgUrl) => {
+    // Claimed before any await, so chapters scraped in parallel never get the same index
     const imgIndex = stats.nextIndex++;
     const localFile = await downloadImage(imgUrl, imgIndex, stats);
     return { imgUrl, localFile };
   });
 
   const results = await Promise.all(downloadPromises);
-  // Map remote image URLs to local file paths
-  const imageUrlMap = new Map<string, string>();
+  // Map remote image URLs to local files
+  const images: Record<string, string> = {};
   for (const { imgUrl, localFile } of results) {
     if (localFile) {
-      imageUrlMap.set(imgUrl, `../images/${localFile}`);
+      images[imgUrl] = localFile;
     }
   }
 
-  // Convert to markdown
-  let markdown = markdownConverter.turndown(html);
+  const filepath = path.join(CHAPTERS_DIR, filename);
+  await fs.writeFile(filepath, renderChapter(html, title, images), "utf-8");
+
+  return { index, title, url, filename, contentHash, scrapedAt: new Date().toISOString(), images };
+}
+
+/**
+ * Convert extracted chapter HTML to the chapter file's Markdown.
+ *
+ * @param html - Extracted content HTML
+ * @param title - Chapter title
+ * @param images - Remote image URL → local file in images/
+ * @returns Markdown with the title heading and local image paths
+ */
+export function renderChapter(html: string, title: string, images: Record<string, string>): string {
+  let markdown = htmlToMarkdown(html);
 
   // Replace remote image URLs with local paths
   // Using split/join as a global replace (avoids regex escaping issues with URLs)
-  for (const [remoteUrl, localPath] of imageUrlMap) {
-    markdown = markdown.split(remoteUrl).join(localPath);
+  for (const [remoteUrl, localFile] of Object.entries(images)) {
+    markdown = markdown.split(remoteUrl).join(`../images/${localFile}`);
   }
 
-  const filename = `${String(index + 1).padStart(3, "0")}-${sanitizeFilename(title)}.md`;
-  const filepath = path.join(CHAPTERS_DIR, filename);
+  return withTitleHeading(markdown, title);
+}
 
-  // Add title as H1 if not already present
-  const content = markdown.startsWith("#") ? markdown : `# ${title}\n\n${markdown}`;
-  await fs.writeFile(filepath, content, "utf-8");
+/**
+ * Name of the raw HTML snapshot saved for a chapter file.
+ *
+ * @param filename - Chapter filename (e.g. '001-introduction.md')
+ * @returns Snapshot filename in output/raw/ (e.g. '001-introduction.html')
+ */
+export function rawSnapshotName(filename: string): string {
+  return filename.replace(/\.md$/, ".html");
+}
 
-  // Show progress bar if total is known, otherwise simple log
-  if (total) {
-    progressBar(index + 1, total, title);
-  } else {
-    console.log(`  [${index + 1}] ${title}`);
+/**
+ * Name a chapter file by its position and title.
+ *
+ * @param index - Zero-based chapter index
+ * @param title - Chapter title
+ * @returns Filename (e.g., '001-introduction.md')
+ */
+function chapterFilename(index: number, title: string): string {
+  return `${String(index + 1).padStart(3, "0")}-${sanitizeFilename(title)}.md`;
+}
+
+/**
+ * Copy a chapter file of the book being updated into the chapters directory.
+ *
+ * @param previousFilename - Filename in the previous scrape
+ * @param filename - Filename for the chapter's current position
+ * @returns True if copied, false if the previous file is missing (the chapter is then rewritten)
+ */
+async function keepPreviousChapter(previousFilename: string, filename: string): Promise<boolean> {
+  try {
+    await fs.copyFile(path.join(PREVIOUS_CHAPTERS_DIR, previousFilename), path.join(CHAPTERS_DIR, filename));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep the previous version of chapters that failed during an update, so a failed
+ * re-scrape never drops a chapter from the book: the file is copied back under the
+ * chapter's new number and its metadata is marked stale.
+ *
+ * @param checkpoint - Checkpoint of the finished scrape
+ * @returns Chapters for meta.json, in order
+ */
+async function keepFailedChapters(checkpoint: Checkpoint): Promise<ChapterMeta[]> {
+  const previousByUrl = new Map((checkpoint.previous ?? []).map((chapter) => [chapter.url, chapter]));
+  const kept: ChapterMeta[] = [];
+  for (const { index, url } of checkpoint.failures) {
+    const previous = previousByUrl.get(url);
+    if (!previous) continue;
+    const filename = chapterFilename(index, previous.title);
+    if (await keepPreviousChapter(previous.filename, filename)) {
+      kept.push({ ...previous, index, filename, stale: true });
+      console.log(`Kept the previous version of [${index + 1}] ${previous.title}`);
+    }
+  }
+  return [...checkpoint.chapters, ...kept].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Remove the previous versions that an unfinished update kept for its failed chapters,
+ * before --resume retries them (a retried chapter may get a different filename).
+ *
+ * @param checkpoint - Saved checkpoint
+ */
+async function removeKeptChapters(checkpoint: Checkpoint): Promise<void> {
+  const previousByUrl = new Map((checkpoint.previous ?? []).map((chapter) => [chapter.url, chapter]));
+  for (const { index, url } of checkpoint.failures) {
+    const previous = previousByUrl.get(url);
+    if (previous) {
+      await fs.rm(path.join(CHAPTERS_DIR, chapterFilename(index, previous.title)), { force: true });
+    }
   }
+}
 
-  return { index, title, url, filename };
+/** Where chapter results are recorded as they finish */
+interface ScrapeProgress {
+  /** Chapter list and results so far */
+  checkpoint: Checkpoint;
+  /** Image statistics; the next index is saved with the checkpoint */
+  stats: ImageStats;
+  /** Saves the checkpoint to disk */
+  save: (checkpoint: Checkpoint) => Promise<void>;
 }
 
-/** Result of a chapter scrape attempt */
-interface ChapterResult {
-  success: boolean;
-  chapter?: ChapterMeta;
-  error?: { index: number; url: string; message: string };
+/**
+ * Save the checkpoint with the current image counter.
+ *
+ * @param progress - Checkpoint, image stats and writer
+ */
+async function saveProgress(progress: ScrapeProgress): Promise<void> {
+  progress.checkpoint.nextImageIndex = progress.stats.nextIndex;
+  await progress.save(progress.checkpoint);
 }
 
 /**
  * Filter chapter links based on skip URLs and URL pattern.
  */
-function filterChapterLinks(links: string[], skipUrls: string[], urlPattern: string | null): string[] {
+function filterChapterLinks(links: TocLink[], skipUrls: string[], urlPattern: string | null): TocLink[] {
   let filtered = links;
 
   if (skipUrls.length > 0) {
-    filtered = filtered.filter((link) => !skipUrls.some((skip) => link.includes(skip)));
+    filtered = filtered.filter((link) => !skipUrls.some((skip) => link.url.includes(skip)));
   }
 
   if (urlPattern) {
     const regex = globToRegex(urlPattern);
-    filtered = filtered.filter((link) => regex.test(link));
+    filtered = filtered.filter((link) => regex.test(link.url));
   }
 
   return filtered;
 }
 
 /**
- * Scrape chapters in TOC mode (from a list of links).
+ * Read chapter links from the site's sitemap.xml, keeping pages on the start URL's host.
+ *
+ * @param baseUrl - Base URL of the site
+ * @param order - Page order
+ * @returns Chapter links without TOC text or sections
+ * @throws Error if the sitemap cannot be fetched
  */
-async function scrapeTocChapters(
+async function extractSitemapLinks(baseUrl: string, order: SitemapOrder): Promise<TocLink[]> {
+  const sitemapUrl = `${baseUrl}/sitemap.xml`;
+  console.log(`Reading sitemap: ${sitemapUrl}`);
+  const entries = await fetchSitemapEntries(sitemapUrl);
+  const baseHost = new URL(baseUrl).host;
+
+  return orderSitemapEntries(entries, order)
+    .filter((entry) => URL.canParse(entry.url) && new URL(entry.url).host === baseHost)
+    .map((entry) => ({ url: entry.url, text: "", sections: [] }));
+}
+
+/**
+ * Crawl from the start URL and return the pages found, in the configured order.
+ *
+ * @param page - Browser page used to load each crawled page
+ * @param startUrl - Start URL (visited first)
+ * @param load - Page load options
+ * @param chapterDelay - Delay between page loads (ms)
+ * @param settings - Crawl limits, scope and order
+ * @param skipUrls - URLs not to follow
+ * @param urlPattern - Glob pattern of the pages that count toward --max-pages
+ * @returns Chapter links without TOC text or sections
+ */
+async function crawlChapterLinks(
   page: Page,
-  links: string[],
-  pageWait: number,
+  startUrl: string,
+  load: PageLoadOptions,
   chapterDelay: number,
-  stats: ImageStats,
-): Promise<ChapterResult[]> {
-  const results: ChapterResult[] = [];
+  settings: CrawlSettings,
+  skipUrls: string[],
+  urlPattern: string | null,
+): Promise<TocLink[]> {
+  const prefix = settings.prefix ?? defaultCrawlPrefix(startUrl);
+  console.log(
+    `Crawling from ${startUrl} (depth ${settings.maxDepth}, up to ${settings.maxPages} pages under ${prefix})`,
+  );
 
-  for (let i = 0; i < links.length; i++) {
-    try {
-      const chapter = await scrapeChapter(page, links[i], i, links.length, pageWait, stats);
-      results.push({ success: true, chapter });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      results.push({ success: false, error: { index: i, url: links[i], message } });
-      progressBar(i + 1, links.length, `FAILED: ${links[i].slice(-30)}`);
-    }
+  let visits = 0;
+  const urls = await crawlPages(
+    startUrl,
+    async (url) => {
+      if (visits++ > 0) {
+        await delay(chapterDelay + Math.random() * 500);
+      }
+      await loadPage(page, url, load);
+      return await extractPageLinks(page);
+    },
+    {
+      maxDepth: settings.maxDepth,
+      maxPages: settings.maxPages,
+      maxVisits: settings.maxPages * CRAWL_VISITS_PER_PAGE,
+      prefix,
+      skipUrls,
+      pattern: urlPattern ? globToRegex(urlPattern) : null,
+    },
+  );
 
-    if (i < links.length - 1) {
-      await delay(chapterDelay + Math.random() * 500);
+  return orderCrawledPages(urls, settings.order).map((url) => ({ url, text: "", sections: [] }));
+}
+
+/**
+ * Scrape chapters in TOC mode (from the checkpoint's link list), skipping chapters already done.
+ * With several pages, each page works through the list in parallel; results are recorded by index,
+ * and request starts to the same host stay at least `chapterDelay` apart.
+ */
+async function scrapeTocChapters(
+  pages: Page[],
+  load: PageLoadOptions,
+  chapterDelay: number,
+  options: ChapterOptions,
+  progress: ScrapeProgress,
+): Promise<void> {
+  const { checkpoint, stats } = progress;
+  const { links } = checkpoint;
+  const done = new Set(checkpoint.chapters.map((chapter) => chapter.index));
+  const pending = links.map((_, i) => i).filter((i) => !done.has(i));
+  const throttle = createHostThrottle(chapterDelay);
+  let nextPending = 0;
+  let completed = links.length - pending.length;
+
+  const scrapeWith = async (page: Page) => {
+    while (nextPending < pending.length) {
+      const i = pending[nextPending++];
+      const { url, text, sections, title } = links[i];
+      await throttle(url);
+      try {
+        const chapter = await scrapeChapter(page, url, i, load, stats, options, text, title ?? null);
+        if (sections.length > 0) {
+          chapter.sections = sections;
+        }
+        recordChapter(checkpoint, chapter);
+        progressBar(++completed, links.length, chapter.title);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        recordFailure(checkpoint, { index: i, url, message });
+        progressBar(++completed, links.length, `FAILED: ${url.slice(-30)}`);
+      }
+      await saveProgress(progress);
+
+      if (nextPending < pending.length) {
+        await delay(chapterDelay + Math.random() * 500);
+      }
     }
-  }
+  };
 
-  return results;
+  await Promise.all(pages.slice(0, pending.length).map(scrapeWith));
 }
 
 /**
- * Scrape chapters in navigation mode (following next links).
+ * Scrape chapters in navigation mode (following next links), starting at the checkpoint's next URL.
+ * Each visited page is added to the checkpoint's links along with its result and the next link.
  */
 async function scrapeNavigationChapters(
   page: Page,
-  startUrl: string,
   baseUrl: string,
-  pageWait: number,
+  load: PageLoadOptions,
   chapterDelay: number,
-  stats: ImageStats,
-): Promise<ChapterResult[]> {
-  const results: ChapterResult[] = [];
-  const visitedUrls = new Set<string>();
-  let currentUrl: string | null = startUrl;
-  let index = 0;
+  options: ChapterOptions,
+  next: NextLinkOptions,
+  progress: ScrapeProgress,
+): Promise<void> {
+  const { checkpoint, stats } = progress;
+  const visitedUrls = new Set(checkpoint.chapters.map((chapter) => chapter.url));
+  let currentUrl = checkpoint.nextUrl;
 
   while (currentUrl) {
+    const index = checkpoint.links.length;
+    let chapter: ChapterMeta | null = null;
+    let message = "";
     try {
-      const chapter = await scrapeChapter(page, currentUrl, index, undefined, pageWait, stats);
-      results.push({ success: true, chapter });
+      chapter = await scrapeChapter(page, currentUrl, index, load, stats, options);
+      console.log(`  [${index + 1}] ${chapter.title}`);
       visitedUrls.add(currentUrl);
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      results.push({ success: false, error: { index, url: currentUrl, message } });
+      message = error instanceof Error ? error.message : String(error);
       console.log(`  [${index + 1}] FAILED: ${currentUrl.slice(-40)}`);
     }
 
-    const nextUrl = await findNextChapterLink(page, baseUrl);
-    if (nextUrl && !visitedUrls.has(nextUrl)) {
-      currentUrl = nextUrl;
-      index++;
-      await delay(chapterDelay + Math.random() * 500);
+    const nextLink = await findNextLink(page, baseUrl, next);
+    const nextUrl = nextLink && !visitedUrls.has(nextLink.url) ? nextLink.url : null;
+    if (nextLink && nextUrl) {
+      console.log(`      next: ${nextUrl} (${nextLink.reason})`);
+    }
+
+    // Updated together, so a checkpoint flushed on interrupt never has the page half-recorded
+    checkpoint.links.push({ url: currentUrl, text: "", sections: [] });
+    if (chapter) {
+      recordChapter(checkpoint, chapter);
     } else {
-      currentUrl = null;
+      recordFailure(checkpoint, { index, url: currentUrl, message });
     }
-  }
+    checkpoint.nextUrl = nextUrl;
+    await saveProgress(progress);
 
-  return results;
+    currentUrl = nextUrl;
+    if (currentUrl) {
+      await delay(chapterDelay + Math.random() * 500);
+    }
+  }
 }
 
 /**
@@ -588,6 +1134,453 @@ function printScrapeSummary(chapters: ChapterMeta[], failedCount: number, imageF
   return failedCount > 0 ? 1 : 0;
 }
 
+/**
+ * Decide between TOC and navigation mode for the start page.
+ *
+ * @param page - Page with the start URL loaded
+ * @param baseUrl - Base URL for resolving next links
+ * @param links - Chapter links found on the start page (after filtering)
+ * @param option - Value of --mode
+ * @param next - Next-link detection options
+ * @returns Selected mode and the reasons for it
+ */
+async function detectMode(
+  page: Page,
+  baseUrl: string,
+  links: TocLink[],
+  option: ModeOption,
+  next: NextLinkOptions,
+): Promise<ModeDecision> {
+  if (option !== "auto") {
+    return { mode: option, score: null, reasons: ["set with --mode"] };
+  }
+  if (links.length === 0) {
+    return { mode: "navigate", score: null, reasons: ["no chapter links on the start page"] };
+  }
+
+  const urls = links.map((link) => link.url);
+  const density = await extractPageSignals(page, urls);
+  const hasNextLink = (await findNextLink(page, baseUrl, next)) !== null;
+  return scoreTocPage(urls, { ...density, hasNextLink });
+}
+
+/** Where chapter links come from and how the scrape mode is chosen */
+interface DiscoveryOptions {
+  /** Chapter link source */
+  source: ChapterSource;
+  /** Page order for the sitemap source */
+  sitemapOrder: SitemapOrder;
+  /** URLs to skip */
+  skipUrls: string[];
+  /** Glob pattern chapter URLs must match */
+  urlPattern: string | null;
+  /** Value of --mode */
+  mode: ModeOption;
+  /** Next-link detection options */
+  next: NextLinkOptions;
+  /** Chapters from --urls-file, used instead of the source */
+  urlList: UrlListEntry[] | null;
+  /** Crawl mode settings */
+  crawl: CrawlSettings;
+  /** Delay between crawled pages (ms) */
+  chapterDelay: number;
+}
+
+/**
+ * Find chapter links and decide how to scrape them.
+ * URL lists and sitemap pages are scraped as a TOC and crawl mode crawls from the start page;
+ * otherwise links on the start page go through mode detection.
+ *
+ * @param page - Browser page (the start page is loaded into it for the page source)
+ * @param startUrl - Start URL
+ * @param baseUrl - Base URL of the site
+ * @param load - Page load options
+ * @param options - Source, URL list, filters, mode and crawl settings
+ * @returns Filtered chapter links and the mode decision
+ */
+async function discoverChapters(
+  page: Page,
+  startUrl: string,
+  baseUrl: string,
+  load: PageLoadOptions,
+  options: DiscoveryOptions,
+): Promise<{ links: TocLink[]; decision: ModeDecision }> {
+  // Listed and crawled pages skip detection; links on the start page go through it
+  let rawLinks: TocLink[];
+  let fixed: ModeDecision | null = null;
+  if (options.urlList) {
+    rawLinks = options.urlList.map(({ url, title }) => ({ url, text: "", sections: [], ...(title ? { title } : {}) }));
+    fixed = { mode: "toc", score: null, reasons: [`${rawLinks.length} URLs from --urls-file`] };
+  } else if (options.source === "sitemap") {
+    rawLinks = await extractSitemapLinks(baseUrl, options.sitemapOrder);
+    fixed = { mode: "toc", score: null, reasons: [`${rawLinks.length} pages in sitemap.xml`] };
+  } else if (options.mode === "crawl") {
+    const { chapterDelay, crawl, skipUrls, urlPattern } = options;
+    rawLinks = await crawlChapterLinks(page, startUrl, load, chapterDelay, crawl, skipUrls, urlPattern);
+    fixed = { mode: "crawl", score: null, reasons: ["set with --mode", `${rawLinks.length} pages found`] };
+  } else {
+    console.log(`Navigating to start URL: ${startUrl}`);
+    await loadPage(page, startUrl, load);
+    rawLinks = await extractTocLinks(page, baseUrl);
+  }
+
+  const links = filterChapterLinks(rawLinks, options.skipUrls, options.urlPattern);
+  if (links.length !== rawLinks.length) {
+    console.log(`Filtered ${rawLinks.length - links.length} URLs (${rawLinks.length} → ${links.length})`);
+  }
+
+  // Check if this is a TOC page (has multiple chapter links) or a chapter page
+  const decision = fixed ?? (await detectMode(page, baseUrl, links, options.mode, options.next));
+  return { links, decision };
+}
+
+/**
+ * Check option values that parseArgs accepts as free-form strings.
+ *
+ * @param options - Parsed scraper options
+ * @param startUrl - Resolved start URL
+ * @returns Error message, or null if all options are valid
+ */
+function validateOptions(options: ScraperOptions, startUrl: string): string | null {
+  const { readyStrategy, readySelector, titleSource, mode, source, sitemapOrder, urlsFile, crawlOrder, concurrency } =
+    options;
+  if (!READY_STRATEGIES.includes(readyStrategy as ReadyStrategy)) {
+    return `Unknown --ready strategy "${readyStrategy}" (expected: ${READY_STRATEGIES.join(", ")})`;
+  }
+  if (readyStrategy === "selector" && !readySelector) {
+    return "--ready selector requires --ready-selector <css>";
+  }
+  if (!TITLE_SOURCES.includes(titleSource as TitleSource)) {
+    return `Unknown --title-source "${titleSource}" (expected: ${TITLE_SOURCES.join(", ")})`;
+  }
+  if (!MODE_OPTIONS.includes(mode as ModeOption)) {
+    return `Unknown --mode "${mode}" (expected: ${MODE_OPTIONS.join(", ")})`;
+  }
+  if (!CHAPTER_SOURCES.includes(source as ChapterSource)) {
+    return `Unknown --source "${source}" (expected: ${CHAPTER_SOURCES.join(", ")})`;
+  }
+  if (!SITEMAP_ORDERS.includes(sitemapOrder as SitemapOrder)) {
+    return `Unknown --sitemap-order "${sitemapOrder}" (expected: ${SITEMAP_ORDERS.join(", ")})`;
+  }
+  if (urlsFile && source === "sitemap") {
+    return "--urls-file cannot be combined with --source sitemap";
+  }
+  if (source === "sitemap" && isFileUrl(startUrl)) {
+    return "--source sitemap needs an http or https start URL";
+  }
+  if (!CRAWL_ORDERS.includes(crawlOrder as CrawlOrder)) {
+    return `Unknown --crawl-order "${crawlOrder}" (expected: ${CRAWL_ORDERS.join(", ")})`;
+  }
+  if (options.maxDepth < 0 || options.maxPages < 1) {
+    return "--max-depth must be 0 or more and --max-pages at least 1";
+  }
+  if (concurrency < 1) {
+    return "--concurrency must be at least 1";
+  }
+  if (options.record && options.replay) {
+    return "--record cannot be combined with --replay";
+  }
+  return null;
+}
+
+/**
+ * Resolve the start URL argument, turning local paths into file:// URLs.
+ *
+ * @param input - Start URL or path from the command line, or empty
+ * @returns Start URL, or empty without one
+ * @throws Exits with code 1 if a directory has no index.html
+ */
+async function loadStartUrl(input: string): Promise<string> {
+  try {
+    return await resolveStartUrl(input);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the --urls-file list, if one was given.
+ *
+ * @param filePath - Path to the URL list file, or null
+ * @returns Listed chapters in file order, or null without a file
+ * @throws Exits with code 1 if the file is missing, invalid or empty
+ */
+async function loadUrlList(filePath: string | null): Promise<UrlListEntry[] | null> {
+  if (!filePath) return null;
+  try {
+    return await readUrlList(filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Cannot read --urls-file ${filePath}: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the checkpoint to continue from when --resume is set.
+ *
+ * @param resume - Value of --resume
+ * @param startUrl - Start URL of this run
+ * @returns Saved checkpoint, or null to start from the beginning
+ * @throws Exits with code 1 if the checkpoint is unreadable or belongs to another start URL
+ */
+async function loadCheckpoint(resume: boolean, startUrl: string): Promise<Checkpoint | null> {
+  if (!resume) return null;
+  let checkpoint: Checkpoint | null;
+  try {
+    checkpoint = await readCheckpoint(CHECKPOINT_PATH);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Cannot read ${CHECKPOINT_PATH}: ${message}`);
+    process.exit(1);
+  }
+
+  if (!checkpoint) {
+    console.log(`No checkpoint in ${CHECKPOINT_PATH}, starting from the beginning`);
+  } else if (checkpoint.startUrl !== startUrl) {
+    console.error(`Error: ${CHECKPOINT_PATH} is for ${checkpoint.startUrl}, not ${startUrl}`);
+    process.exit(1);
+  }
+  return checkpoint;
+}
+
+/**
+ * Read the book to update when --update is set.
+ *
+ * @param update - Value of --update
+ * @returns Metadata of the previous scrape, or null without --update
+ * @throws Exits with code 1 if meta.json is missing or invalid
+ */
+async function loadPreviousBook(update: boolean): Promise<BookMeta | null> {
+  if (!update) return null;
+  try {
+    return await readBookMeta(META_PATH);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: --update needs the ${META_PATH} of an earlier scrape: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Open the network archive for --record or --replay, and send fetchWithRetry requests through it.
+ *
+ * @param record - Value of --record
+ * @param replay - Value of --replay
+ * @returns Open archive, or null without either option
+ * @throws Exits with code 1 if the archive cannot be opened
+ */
+async function loadNetworkArchive(record: string | null, replay: string | null): Promise<NetworkArchive | null> {
+  const dir = record ?? replay;
+  if (!dir) return null;
+  let archive: NetworkArchive;
+  try {
+    archive = await openNetworkArchive(dir, record ? "record" : "replay");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Cannot open network archive ${dir}: ${message}`);
+    process.exit(1);
+  }
+
+  setFetchHandler((url) => archive.fetch(url));
+  if (archive.mode === "record") {
+    console.log(`Recording network responses to ${dir}`);
+  } else {
+    console.log(`Replaying ${archive.size} recorded responses from ${dir}`);
+  }
+  return archive;
+}
+
+/**
+ * Write a recorded archive, or report the requests a replayed archive could not answer.
+ *
+ * @param archive - Network archive, or null
+ */
+async function finishNetworkArchive(archive: NetworkArchive | null): Promise<void> {
+  if (!archive) return;
+  if (archive.mode === "record") {
+    await archive.save();
+    console.log(`Recorded ${archive.size} responses to ${archive.dir}`);
+  } else if (archive.missing.size > 0) {
+    console.log(`Warning: ${archive.missing.size} request(s) could not be replayed from the archive:`);
+    for (const url of [...archive.missing].slice(0, MAX_LISTED_MISSING)) {
+      console.log(`  ${url}`);
+    }
+  }
+}
+
+/**
+ * Make sure no earlier update was left unfinished before starting a new one.
+ *
+ * @throws Exits with code 1 if the previous chapters of an unfinished update are still present
+ */
+async function checkNoUnfinishedUpdate(): Promise<void> {
+  const unfinished = await fs.access(PREVIOUS_CHAPTERS_DIR).then(
+    () => true,
+    () => false,
+  );
+  if (unfinished) {
+    console.error(
+      `Error: ${PREVIOUS_CHAPTERS_DIR} is left from an unfinished update; continue it with --resume or remove it`,
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Set a new checkpoint up for updating a book: move its chapter files aside (unchanged chapters
+ * are copied back under their new numbers) and number new images after the existing ones.
+ *
+ * @param checkpoint - Freshly created checkpoint
+ * @param book - Metadata of the previous scrape
+ */
+async function startUpdate(checkpoint: Checkpoint, book: BookMeta): Promise<void> {
+  await fs.rename(CHAPTERS_DIR, PREVIOUS_CHAPTERS_DIR);
+  await fs.mkdir(CHAPTERS_DIR, { recursive: true });
+  checkpoint.previous = book.chapters;
+  checkpoint.nextImageIndex = await nextFreeImageIndex(IMAGES_DIR);
+  console.log(`Updating ${book.chapters.length} chapters scraped ${book.scrapedAt}`);
+}
+
+/**
+ * Continue from a saved checkpoint, or discover chapters and start a new one.
+ *
+ * @param saved - Checkpoint from --resume, or null
+ * @param page - Browser page used for discovery
+ * @param startUrl - Start URL
+ * @param baseUrl - Base URL of the site
+ * @param load - Page load options
+ * @param discovery - Discovery options
+ * @returns Checkpoint to scrape from
+ */
+async function startCheckpoint(
+  saved: Checkpoint | null,
+  page: Page,
+  startUrl: string,
+  baseUrl: string,
+  load: PageLoadOptions,
+  discovery: DiscoveryOptions,
+): Promise<Checkpoint> {
+  if (saved) {
+    const total = saved.mode === "navigate" ? "" : ` of ${saved.links.length}`;
+    console.log(`Resuming ${saved.mode} scrape: ${saved.chapters.length}${total} chapters done`);
+    await removeKeptChapters(saved);
+    return saved;
+  }
+
+  const { links, decision } = await discoverChapters(page, startUrl, baseUrl, load, discovery);
+  const score = decision.score === null ? "" : ` (score ${decision.score})`;
+  console.log(`Mode: ${decision.mode}${score}`);
+  for (const reason of decision.reasons) {
+    console.log(`  ${reason}`);
+  }
+  // Navigation mode records pages as it visits them
+  return createCheckpoint(startUrl, decision.mode, decision.mode === "navigate" ? [] : links);
+}
+
+/**
+ * Print an update's change summary, then remove the checkpoint (and an update's previous chapters)
+ * unless --resume can still retry failed chapters. Failed chapters of an update have their
+ * previous versions kept by then (see keepFailedChapters).
+ *
+ * @param checkpoint - Checkpoint of the finished scrape
+ */
+async function finishCheckpoint(checkpoint: Checkpoint): Promise<void> {
+  const { previous, chapters, failures, mode } = checkpoint;
+  if (previous) {
+    const failedUrls = failures.map((failure) => failure.url);
+    printChangeSummary(summarizeChanges(previous, chapters, failedUrls));
+  }
+
+  if (failures.length === 0 || mode === "navigate") {
+    await fs.rm(CHECKPOINT_PATH, { force: true });
+    await fs.rm(PREVIOUS_CHAPTERS_DIR, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Create the output directories.
+ *
+ * @param saveRaw - Also create the raw snapshot directory
+ */
+async function createOutputDirs(saveRaw: boolean): Promise<void> {
+  await fs.mkdir(CHAPTERS_DIR, { recursive: true });
+  await fs.mkdir(IMAGES_DIR, { recursive: true });
+  if (saveRaw) {
+    await fs.mkdir(RAW_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Check --next-selector once a page is open, since only the browser parses CSS selectors.
+ *
+ * @param page - Open page
+ * @param browser - Browser to close before exiting
+ * @param selector - --next-selector value, or null without one
+ * @throws Exits with code 1 if the selector is invalid
+ */
+async function checkNextSelector(page: Page, browser: Browser, selector: string | null): Promise<void> {
+  if (!selector || (await isValidSelector(page, selector))) return;
+  console.error(`Error: Invalid --next-selector "${selector}"`);
+  await browser.close();
+  process.exit(1);
+}
+
+/**
+ * Open the pages used to scrape chapters in parallel.
+ *
+ * @param browser - Browser to open pages in
+ * @param count - Number of pages
+ * @param options - Page options
+ * @param archive - Network archive to record or replay the pages' requests, or null
+ * @returns Configured pages
+ */
+async function createPages(
+  browser: Browser,
+  count: number,
+  options: PageOptions,
+  archive: NetworkArchive | null,
+): Promise<Page[]> {
+  const pages: Page[] = [];
+  for (let i = 0; i < count; i++) {
+    const page = await createPage(browser, options);
+    await archive?.attach(page);
+    pages.push(page);
+  }
+  return pages;
+}
+
+/**
+ * Open the pages that scrape chapters: the discovery page, plus one more per parallel chapter
+ * in TOC and crawl mode. Navigation mode follows one page at a time.
+ *
+ * @param browser - Browser to open pages in
+ * @param page - Page used for discovery
+ * @param mode - Scrape mode
+ * @param concurrency - Value of --concurrency
+ * @param options - Page options
+ * @param archive - Network archive to record or replay the pages' requests, or null
+ * @returns Pages to scrape with, the discovery page first
+ */
+async function openChapterPages(
+  browser: Browser,
+  page: Page,
+  mode: ScrapeMode,
+  concurrency: number,
+  options: PageOptions,
+  archive: NetworkArchive | null,
+): Promise<Page[]> {
+  if (mode !== "navigate") {
+    return [page, ...(await createPages(browser, concurrency - 1, options, archive))];
+  }
+  if (concurrency > 1) {
+    console.log("--concurrency only applies to TOC and crawl mode; scraping one page at a time");
+  }
+  return [page];
+}
+
 /**
  * Main entry point for the scraper.
  * Launches browser, navigates to start URL, and scrapes all chapters.
@@ -596,13 +1589,50 @@ function printScrapeSummary(chapters: ChapterMeta[], failedCount: number, imageF
  * @throws Exits with code 1 if no URL provided or scraping fails
  */
 export async function main(): Promise<void> {
-  const { startUrl, pageWait, chapterDelay, skipUrls, urlPattern, showHelp } = parseArgs();
+  const options = parseArgs();
+  const {
+    pageWait,
+    chapterDelay,
+    skipUrls,
+    urlPattern,
+    skipDecorativeBg,
+    scroll,
+    scrollStep,
+    scrollPause,
+    readyStrategy,
+    readySelector,
+    readyTimeout,
+    disableAnimations,
+    titleSource,
+    mode,
+    nextPhrases,
+    nextSelector,
+    source,
+    sitemapOrder,
+    urlsFile,
+    maxDepth,
+    maxPages,
+    crawlPrefix,
+    crawlOrder,
+    concurrency,
+    resume,
+    update,
+    saveRaw,
+    record,
+    replay,
+    showHelp,
+  } = options;
 
   if (showHelp) {
     showUsage();
     process.exit(0);
   }
 
+  // The first listed URL, or the start URL of the book being updated, stands in for a missing start URL
+  const urlList = await loadUrlList(urlsFile);
+  const book = await loadPreviousBook(update);
+  const startUrl = (await loadStartUrl(options.startUrl)) || urlList?.[0].url || book?.startUrl;
+
   if (!startUrl) {
     showUsage();
     process.exit(1);
@@ -615,14 +1645,53 @@ export async function main(): Promise<void> {
     process.exit(1);
   }
 
+  const optionError = validateOptions(options, startUrl);
+  if (optionError) {
+    console.error(`Error: ${optionError}`);
+    process.exit(1);
+  }
+
   const baseUrl = getBaseUrl(startUrl);
+  const saved = await loadCheckpoint(resume, startUrl);
+  // A resumed update continues with the previous chapters recorded in its checkpoint
+  const updating = saved ? null : book;
+  if (updating) {
+    await checkNoUnfinishedUpdate();
+  }
 
   // Track image statistics for this run
   const imageStats = createImageStats();
+  const chapterOptions: ChapterOptions = {
+    extraction: { skipDecorativeBackgrounds: skipDecorativeBg },
+    titleSource: titleSource as TitleSource,
+    previous: null,
+    saveRaw,
+  };
+  const load: PageLoadOptions = {
+    pageWait,
+    ready: { strategy: readyStrategy as ReadyStrategy, selector: readySelector, timeout: readyTimeout },
+    scroll: scroll ? { step: scrollStep, pause: scrollPause } : null,
+  };
+  const next: NextLinkOptions = { phrases: [...DEFAULT_NEXT_PHRASES, ...nextPhrases], selector: nextSelector };
+  const discovery: DiscoveryOptions = {
+    source: source as ChapterSource,
+    sitemapOrder: sitemapOrder as SitemapOrder,
+    skipUrls,
+    urlPattern,
+    mode: mode as ModeOption,
+    next,
+    urlList,
+    crawl: { maxDepth, maxPages, prefix: crawlPrefix, order: crawlOrder as CrawlOrder },
+    chapterDelay,
+  };
 
-  // Create output directories
-  await fs.mkdir(CHAPTERS_DIR, { recursive: true });
-  await fs.mkdir(IMAGES_DIR, { recursive: true });
+  await createOutputDirs(saveRaw);
+
+  // Opened before the browser, so on Ctrl+C the archive is saved while response bodies are still readable
+  const archive = await loadNetworkArchive(record, replay);
+  onInterrupt(async () => {
+    await finishNetworkArchive(archive);
+  });
 
   console.log("Launching browser...");
   const browser = await launchBrowser();
@@ -632,7 +1701,20 @@ export async function main(): Promise<void> {
     await browser.close();
   });
 
-  const page = await createPage(browser);
+  // Saved after every chapter, and once more on Ctrl+C
+  const saveCheckpoint = createCheckpointWriter(CHECKPOINT_PATH);
+  let progress: ScrapeProgress | null = null;
+  onInterrupt(async () => {
+    if (progress) {
+      await saveProgress(progress);
+      console.log(`Progress saved to ${CHECKPOINT_PATH} (continue with --resume)`);
+    }
+  });
+
+  // Discovery and navigation mode use one page; the rest are opened for TOC and crawl mode
+  const pageOptions: PageOptions = { disableAnimations };
+  const [page] = await createPages(browser, 1, pageOptions, archive);
+  await checkNextSelector(page, browser, nextSelector);
 
   const meta: BookMeta = {
     scrapedAt: new Date().toISOString(),
@@ -641,52 +1723,48 @@ export async function main(): Promise<void> {
   };
 
   try {
-    console.log(`Navigating to start URL: ${startUrl}`);
-    await page.goto(startUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
-    await delay(pageWait);
-
-    // Check if this is a TOC page (has multiple chapter links) or a chapter page
-    const rawLinks = await extractTocLinks(page, baseUrl);
-    const links = filterChapterLinks(rawLinks, skipUrls, urlPattern);
-
-    if (links.length !== rawLinks.length) {
-      console.log(`Filtered ${rawLinks.length - links.length} URLs (${rawLinks.length} → ${links.length})`);
+    const checkpoint = await startCheckpoint(saved, page, startUrl, baseUrl, load, discovery);
+    if (updating) {
+      await startUpdate(checkpoint, updating);
+    }
+    if (checkpoint.previous) {
+      chapterOptions.previous = new Map(checkpoint.previous.map((chapter) => [chapter.url, chapter]));
     }
+    imageStats.nextIndex = checkpoint.nextImageIndex;
+    progress = { checkpoint, stats: imageStats, save: saveCheckpoint };
+    await saveProgress(progress);
 
     // Scrape chapters using appropriate mode
-    let results: ChapterResult[];
-    if (links.length > TOC_LINK_THRESHOLD) {
-      console.log(`Found ${links.length} chapters. Scraping...\n`);
-      results = await scrapeTocChapters(page, links, pageWait, chapterDelay, imageStats);
-    } else {
+    const pages = await openChapterPages(browser, page, checkpoint.mode, concurrency, pageOptions, archive);
+    if (checkpoint.mode === "navigate") {
       console.log("Following navigation links...\n");
-      results = await scrapeNavigationChapters(page, startUrl, baseUrl, pageWait, chapterDelay, imageStats);
+      await scrapeNavigationChapters(page, baseUrl, load, chapterDelay, chapterOptions, next, progress);
+    } else {
+      // TOC and crawl mode both scrape a list of links
+      console.log(`Found ${checkpoint.links.length} chapters. Scraping...\n`);
+      await scrapeTocChapters(pages, load, chapterDelay, chapterOptions, progress);
     }
+    await finishNetworkArchive(archive);
 
-    // Collect successful chapters and failures
-    for (const result of results) {
-      if (result.success && result.chapter) {
-        meta.chapters.push(result.chapter);
-      }
-    }
-    const failedChapters = results
-      .filter(
-        (r): r is ChapterResult & { error: NonNullable<ChapterResult["error"]> } => !r.success && r.error !== undefined,
-      )
-      .map((r) => r.error);
+    meta.chapters = await keepFailedChapters(checkpoint);
+    const failedChapters = checkpoint.failures;
 
     // Save metadata
-    const metaPath = path.join(OUTPUT_DIR, "meta.json");
-    await fs.writeFile(metaPath, JSON.stringify(meta, null, 2), "utf-8");
-    console.log(`\nSaved metadata to ${metaPath}`);
+    await fs.writeFile(META_PATH, JSON.stringify(meta, null, 2), "utf-8");
+    console.log(`\nSaved metadata to ${META_PATH}`);
+
+    await finishCheckpoint(checkpoint);
 
-    const exitCode = printScrapeSummary(meta.chapters, failedChapters.length, imageStats.failedCount);
+    const exitCode = printScrapeSummary(checkpoint.chapters, failedChapters.length, imageStats.failedCount);
 
     if (failedChapters.length > 0) {
       console.log(`\nFailed chapters (${failedChapters.length}):`);
       for (const { index, url } of failedChapters) {
         console.log(`  [${index + 1}] ${url}`);
       }
+      if (checkpoint.mode !== "navigate") {
+        console.log("Run again with --resume to retry them.");
+      }
     }
 
     if (exitCode !== 0) {
@@ -694,6 +1772,8 @@ export async function main(): Promise<void> {
     }
   } catch (error) {
     console.error("Error:", error);
+    // A recording of a failed run is what reproduces the failure
+    await finishNetworkArchive(archive);
     process.exit(1);
   } finally {
     await browser.close();
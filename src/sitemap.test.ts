@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchSitemapEntries, orderSitemapEntries, parseSitemap, type SitemapEntry } from "./sitemap.js";
+
+vi.mock("./utils.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("./utils.js")>();
+  return {
+    ...original,
+    fetchWithRetry: vi.fn(),
+  };
+});
+
+import { fetchWithRetry } from "./utils.js";
+
+function urlset(...urls: string[]): string {
+  const items = urls.map((url) => `<url><loc>${url}</loc></url>`).join("");
+  return `<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${items}</urlset>`;
+}
+
+function sitemapResponse(body: string, status = 200): Response {
+  return { ok: status === 200, status, text: () => Promise.resolve(body) } as Response;
+}
+
+describe("parseSitemap", () => {
+  it("reads page URLs and lastmod dates in document order", () => {
+    const xml = `<urlset>
+      <url><loc>https://example.com/two</loc><lastmod>2024-02-01</lastmod></url>
+      <url>
+        <loc> https://example.com/one </loc>
+      </url>
+    </urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      entries: [
+        { url: "https://example.com/two", lastmod: "2024-02-01" },
+        { url: "https://example.com/one", lastmod: null },
+      ],
+      sitemaps: [],
+    });
+  });
+
+  it("reads child sitemaps from a sitemap index", () => {
+    const xml =
+      "<sitemapindex><sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap>" +
+      "<sitemap><loc>https://example.com/sitemap-2.xml</loc></sitemap></sitemapindex>";
+
+    expect(parseSitemap(xml)).toEqual({
+      entries: [],
+      sitemaps: ["https://example.com/sitemap-1.xml", "https://example.com/sitemap-2.xml"],
+    });
+  });
+
+  it("decodes entities and CDATA, and accepts namespace prefixes", () => {
+    const xml =
+      "<sm:urlset><sm:url><sm:loc>https://example.com/page?a=1&amp;b=2</sm:loc></sm:url>" +
+      "<sm:url><sm:loc><![CDATA[https://example.com/other]]></sm:loc></sm:url></sm:urlset>";
+
+    expect(parseSitemap(xml).entries.map((entry) => entry.url)).toEqual([
+      "https://example.com/page?a=1&b=2",
+      "https://example.com/other",
+    ]);
+  });
+
+  it("skips entries without a location", () => {
+    expect(parseSitemap("<urlset><url><lastmod>2024-01-01</lastmod></url></urlset>").entries).toEqual([]);
+  });
+});
+
+describe("orderSitemapEntries", () => {
+  const entries: SitemapEntry[] = [
+    { url: "https://example.com/page10", lastmod: "2024-03-01" },
+    { url: "https://example.com/page2", lastmod: null },
+    { url: "https://example.com/page1", lastmod: "2024-01-01T10:00:00+00:00" },
+  ];
+
+  it("keeps sitemap order", () => {
+    expect(orderSitemapEntries(entries, "sitemap")).toEqual(entries);
+  });
+
+  it("sorts URLs naturally", () => {
+    expect(orderSitemapEntries(entries, "natural").map((entry) => entry.url)).toEqual([
+      "https://example.com/page1",
+      "https://example.com/page2",
+      "https://example.com/page10",
+    ]);
+  });
+
+  it("sorts by lastmod with undated pages last", () => {
+    expect(orderSitemapEntries(entries, "lastmod").map((entry) => entry.url)).toEqual([
+      "https://example.com/page1",
+      "https://example.com/page10",
+      "https://example.com/page2",
+    ]);
+  });
+
+  it("does not modify the input", () => {
+    const copy = [...entries];
+    orderSitemapEntries(entries, "natural");
+    expect(entries).toEqual(copy);
+  });
+});
+
+describe("fetchSitemapEntries", () => {
+  const mockFetchWithRetry = vi.mocked(fetchWithRetry);
+
+  afterEach(() => {
+    mockFetchWithRetry.mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the pages of a plain sitemap", async () => {
+    mockFetchWithRetry.mockResolvedValueOnce(sitemapResponse(urlset("https://example.com/a", "https://example.com/b")));
+
+    const entries = await fetchSitemapEntries("https://example.com/sitemap.xml");
+
+    expect(mockFetchWithRetry).toHaveBeenCalledWith("https://example.com/sitemap.xml");
+    expect(entries.map((entry) => entry.url)).toEqual(["https://example.com/a", "https://example.com/b"]);
+  });
+
+  it("follows sitemap indexes and removes duplicates", async () => {
+    const index =
+      "<sitemapindex><sitemap><loc>https://example.com/s1.xml</loc></sitemap>" +
+      "<sitemap><loc>https://example.com/s2.xml</loc></sitemap></sitemapindex>";
+    mockFetchWithRetry
+      .mockResolvedValueOnce(sitemapResponse(index))
+      .mockResolvedValueOnce(sitemapResponse(urlset("https://example.com/a", "https://example.com/b")))
+      .mockResolvedValueOnce(sitemapResponse(urlset("https://example.com/b", "https://example.com/c")));
+
+    const entries = await fetchSitemapEntries("https://example.com/sitemap.xml");
+
+    expect(entries.map((entry) => entry.url)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+      "https://example.com/c",
+    ]);
+  });
+
+  it("skips child sitemaps that fail to load", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const index =
+      "<sitemapindex><sitemap><loc>https://example.com/gone.xml</loc></sitemap>" +
+      "<sitemap><loc>https://example.com/s2.xml</loc></sitemap></sitemapindex>";
+    mockFetchWithRetry
+      .mockResolvedValueOnce(sitemapResponse(index))
+      .mockResolvedValueOnce(sitemapResponse("", 404))
+      .mockResolvedValueOnce(sitemapResponse(urlset("https://example.com/c")));
+
+    const entries = await fetchSitemapEntries("https://example.com/sitemap.xml");
+
+    expect(entries.map((entry) => entry.url)).toEqual(["https://example.com/c"]);
+    expect(console.warn).toHaveBeenCalledWith(
+      "  Skipping sitemap: Failed to fetch sitemap https://example.com/gone.xml: HTTP 404",
+    );
+  });
+
+  it("does not revisit a sitemap that references itself", async () => {
+    const index = "<sitemapindex><sitemap><loc>https://example.com/sitemap.xml</loc></sitemap></sitemapindex>";
+    mockFetchWithRetry.mockResolvedValue(sitemapResponse(index));
+
+    expect(await fetchSitemapEntries("https://example.com/sitemap.xml")).toEqual([]);
+    expect(mockFetchWithRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws when the root sitemap is missing", async () => {
+    mockFetchWithRetry.mockResolvedValueOnce(sitemapResponse("", 404));
+
+    await expect(fetchSitemapEntries("https://example.com/sitemap.xml")).rejects.toThrow(
+      "Failed to fetch sitemap https://example.com/sitemap.xml: HTTP 404",
+    );
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Sitemap chapter discovery
+ *
+ * Reads chapter URLs from the site's sitemap.xml (Tilda publishes one for every project),
+ * following sitemap indexes to their child sitemaps.
+ */
+
+import { fetchWithRetry } from "./utils.js";
+
+/** A page listed in a sitemap */
+export interface SitemapEntry {
+  /** Absolute page URL */
+  url: string;
+  /** Last modification date as written in the sitemap, or null if missing */
+  lastmod: string | null;
+}
+
+/** Parsed sitemap document: page entries, or child sitemaps for a sitemap index */
+export interface ParsedSitemap {
+  /** Pages from `<url>` elements */
+  entries: SitemapEntry[];
+  /** Child sitemap URLs from `<sitemap>` elements */
+  sitemaps: string[];
+}
+
+/**
+ * How sitemap pages are ordered:
+ * - `sitemap`: order they appear in the sitemap
+ * - `natural`: URL natural sort (`/page2` before `/page10`)
+ * - `lastmod`: oldest modification first, pages without a date last
+ */
+export type SitemapOrder = "sitemap" | "natural" | "lastmod";
+
+/** Accepted values for --sitemap-order */
+export const SITEMAP_ORDERS: SitemapOrder[] = ["sitemap", "natural", "lastmod"];
+
+/** Maximum sitemap index nesting followed before giving up */
+const MAX_SITEMAP_DEPTH = 3;
+
+/**
+ * Decode XML character entities and CDATA sections in element text.
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Read the text of a child element, ignoring namespace prefixes.
+ */
+function childText(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  return match ? decodeXmlText(match[1]) || null : null;
+}
+
+/**
+ * Parse a sitemap or sitemap index document.
+ *
+ * @param xml - Sitemap XML text
+ * @returns Page entries and child sitemap URLs, in document order
+ *
+ * @example
+ * parseSitemap('<urlset><url><loc>https://a.com/one</loc></url></urlset>')
+ * // { entries: [{ url: 'https://a.com/one', lastmod: null }], sitemaps: [] }
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const entries: SitemapEntry[] = [];
+  const sitemaps: string[] = [];
+
+  for (const [, body] of xml.matchAll(/<(?:\w+:)?url(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?url>/g)) {
+    const url = childText(body, "loc");
+    if (url) entries.push({ url, lastmod: childText(body, "lastmod") });
+  }
+  for (const [, body] of xml.matchAll(/<(?:\w+:)?sitemap(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?sitemap>/g)) {
+    const url = childText(body, "loc");
+    if (url) sitemaps.push(url);
+  }
+
+  return { entries, sitemaps };
+}
+
+/**
+ * Fetch a sitemap and all sitemaps it references.
+ * A missing or unreadable root sitemap is an error; broken child sitemaps are reported and skipped.
+ *
+ * @param sitemapUrl - URL of sitemap.xml or a sitemap index
+ * @returns Page entries from all sitemaps, deduplicated, in document order
+ * @throws Error if the root sitemap cannot be fetched
+ */
+export async function fetchSitemapEntries(sitemapUrl: string): Promise<SitemapEntry[]> {
+  const entries: SitemapEntry[] = [];
+  const seenUrls = new Set<string>();
+  const visitedSitemaps = new Set<string>();
+
+  const visit = async (url: string, depth: number): Promise<void> => {
+    if (visitedSitemaps.has(url) || depth > MAX_SITEMAP_DEPTH) return;
+    visitedSitemaps.add(url);
+
+    const response = await fetchWithRetry(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sitemap ${url}: HTTP ${response.status}`);
+    }
+    const parsed = parseSitemap(await response.text());
+
+    for (const entry of parsed.entries) {
+      if (!seenUrls.has(entry.url)) {
+        seenUrls.add(entry.url);
+        entries.push(entry);
+      }
+    }
+    for (const child of parsed.sitemaps) {
+      try {
+        await visit(child, depth + 1);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`  Skipping sitemap: ${message}`);
+      }
+    }
+  };
+
+  await visit(sitemapUrl, 0);
+  return entries;
+}
+
+/**
+ * Order sitemap entries for scraping.
+ *
+ * @param entries - Entries in sitemap order
+ * @param order - Ordering key
+ * @returns New array in the requested order (ties keep sitemap order)
+ */
+export function orderSitemapEntries(entries: SitemapEntry[], order: SitemapOrder): SitemapEntry[] {
+  if (order === "natural") {
+    return [...entries].sort((a, b) => a.url.localeCompare(b.url, "en", { numeric: true }));
+  }
+  if (order === "lastmod") {
+    const time = (entry: SitemapEntry) => {
+      const parsed = entry.lastmod ? Date.parse(entry.lastmod) : Number.NaN;
+      return Number.isNaN(parsed) ? Number.POSITIVE_INFINITY : parsed;
+    };
+    return [...entries].sort((a, b) => {
+      const [timeA, timeB] = [time(a), time(b)];
+      return timeA === timeB ? 0 : timeA < timeB ? -1 : 1;
+    });
+  }
+  return [...entries];
+}
@@ -12,6 +12,19 @@ export interface ChapterMeta {
   url: string;
   /** Local filename (e.g., '001-introduction.md') */
   filename: string;
+  /**
+   * Grouping headings above this chapter on the TOC page, outermost first
+   * (e.g., ['Part I', 'Muscles']). Absent for chapters outside any group.
+   */
+  sections?: string[];
+  /** Hash of the extracted title and content, compared by --update. Absent in older meta.json files. */
+  contentHash?: string;
+  /** ISO timestamp when the chapter content was last written (kept for unchanged chapters in --update) */
+  scrapedAt?: string;
+  /** Remote image URL → local file in images/ (e.g. 'img-0003.jpg'), used by reprocess */
+  images?: Record<string, string>;
+  /** True when the last --update failed to re-scrape the chapter and kept its previous version */
+  stale?: boolean;
 }
 
 /** Metadata for the entire book, stored in meta.json */
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChapterMeta } from "./types.js";
+import {
+  hashChapterContent,
+  nextFreeImageIndex,
+  printChangeSummary,
+  readBookMeta,
+  summarizeChanges,
+} from "./update.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+  readdir: vi.fn(),
+}));
+
+import * as fs from "node:fs/promises";
+
+function chapter(index: number, name: string, contentHash?: string): ChapterMeta {
+  return { index, title: name, url: `https://example.com/${name}`, filename: `00${index + 1}-${name}.md`, contentHash };
+}
+
+describe("hashChapterContent", () => {
+  it("depends on both title and content", () => {
+    const hash = hashChapterContent("One", "<p>Text</p>");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashChapterContent("One", "<p>Text</p>")).toBe(hash);
+    expect(hashChapterContent("Two", "<p>Text</p>")).not.toBe(hash);
+    expect(hashChapterContent("One", "<p>Edited</p>")).not.toBe(hash);
+  });
+});
+
+describe("summarizeChanges", () => {
+  const previous = [chapter(0, "one", "a"), chapter(1, "two", "b"), chapter(2, "three", "c")];
+
+  it("groups chapters by URL and content hash", () => {
+    const chapters = [chapter(0, "new", "n"), chapter(1, "one", "a"), chapter(2, "two", "b2")];
+
+    expect(summarizeChanges(previous, chapters, [])).toEqual({
+      unchanged: [chapters[1]],
+      changed: [chapters[2]],
+      added: [chapters[0]],
+      removed: [previous[2]],
+    });
+  });
+
+  it("does not count failed chapters as removed", () => {
+    expect(summarizeChanges(previous, [], ["https://example.com/two"]).removed).toEqual([previous[0], previous[2]]);
+  });
+
+  it("treats chapters without an earlier hash as changed", () => {
+    const summary = summarizeChanges([chapter(0, "one")], [chapter(0, "one", "a")], []);
+
+    expect(summary.changed).toHaveLength(1);
+    expect(summary.unchanged).toEqual([]);
+  });
+});
+
+describe("printChangeSummary", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prints counts and the chapters that changed", () => {
+    printChangeSummary({
+      unchanged: [chapter(0, "one")],
+      changed: [chapter(1, "two")],
+      added: [],
+      removed: [chapter(2, "three")],
+    });
+
+    expect(console.log).toHaveBeenCalledWith("\nUpdate: 1 unchanged, 1 changed, 0 new, 1 removed");
+    expect(console.log).toHaveBeenCalledWith("  changed  [2] two");
+    expect(console.log).toHaveBeenCalledWith("  removed  three (https://example.com/three)");
+  });
+});
+
+describe("readBookMeta", () => {
+  it("reads a valid meta.json", async () => {
+    const meta = { scrapedAt: "2024-01-01T00:00:00.000Z", startUrl: "https://example.com/", chapters: [] };
+    vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify(meta));
+
+    expect(await readBookMeta("output/meta.json")).toEqual(meta);
+  });
+
+  it("rejects an invalid meta.json", async () => {
+    vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify({ startUrl: "https://example.com/" }));
+
+    await expect(readBookMeta("output/meta.json")).rejects.toThrow("Missing or invalid field: scrapedAt");
+  });
+});
+
+describe("nextFreeImageIndex", () => {
+  it("continues after the highest image number", async () => {
+    vi.mocked(fs.readdir).mockResolvedValueOnce(["img-0002.jpg", "img-0010.jpg", "cover.png"] as never);
+
+    expect(await nextFreeImageIndex("output/images")).toBe(11);
+  });
+
+  it("starts at 0 without images", async () => {
+    vi.mocked(fs.readdir).mockResolvedValueOnce([] as never);
+    expect(await nextFreeImageIndex("output/images")).toBe(0);
+
+    vi.mocked(fs.readdir).mockRejectedValueOnce(new Error("ENOENT"));
+    expect(await nextFreeImageIndex("output/images")).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Incremental re-scrapes (--update)
+ *
+ * Chapters are matched to the previous meta.json by URL and compared by a hash of their
+ * extracted title and content, so only new and changed chapters are rewritten.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import type { BookMeta, ChapterMeta } from "./types.js";
+import { validateBookMeta } from "./utils.js";
+
+/** How the chapters of an updated book compare to the previous scrape */
+export interface ChangeSummary {
+  /** Chapters whose content hash matches the previous scrape */
+  unchanged: ChapterMeta[];
+  /** Chapters whose content changed (or that had no hash before) */
+  changed: ChapterMeta[];
+  /** Chapters with URLs not in the previous scrape */
+  added: ChapterMeta[];
+  /** Previous chapters that are no longer part of the book */
+  removed: ChapterMeta[];
+}
+
+/**
+ * Hash a chapter's extracted title and content.
+ * Taken before images are localized, so image numbering doesn't affect it.
+ *
+ * @param title - Chapter title
+ * @param html - Extracted content HTML
+ * @returns Hex SHA-256 digest
+ */
+export function hashChapterContent(title: string, html: string): string {
+  return createHash("sha256").update(`${title}\n${html}`).digest("hex");
+}
+
+/**
+ * Compare the chapters of an update with the previous scrape.
+ *
+ * @param previous - Chapters from the previous meta.json
+ * @param chapters - Chapters scraped now
+ * @param failedUrls - URLs that failed now; their previous chapters don't count as removed
+ * @returns Chapters grouped by change
+ */
+export function summarizeChanges(
+  previous: ChapterMeta[],
+  chapters: ChapterMeta[],
+  failedUrls: string[],
+): ChangeSummary {
+  const previousByUrl = new Map(previous.map((chapter) => [chapter.url, chapter]));
+  const summary: ChangeSummary = { unchanged: [], changed: [], added: [], removed: [] };
+
+  for (const chapter of chapters) {
+    const earlier = previousByUrl.get(chapter.url);
+    if (!earlier) {
+      summary.added.push(chapter);
+    } else if (earlier.contentHash && earlier.contentHash === chapter.contentHash) {
+      summary.unchanged.push(chapter);
+    } else {
+      summary.changed.push(chapter);
+    }
+  }
+
+  const kept = new Set([...chapters.map((chapter) => chapter.url), ...failedUrls]);
+  summary.removed = previous.filter((chapter) => !kept.has(chapter.url));
+  return summary;
+}
+
+/**
+ * Print the change summary of an update.
+ *
+ * @param summary - Chapters grouped by change
+ */
+export function printChangeSummary(summary: ChangeSummary): void {
+  const { unchanged, changed, added, removed } = summary;
+  console.log(
+    `\nUpdate: ${unchanged.length} unchanged, ${changed.length} changed, ${added.length} new, ${removed.length} removed`,
+  );
+  for (const chapter of changed) {
+    console.log(`  changed  [${chapter.index + 1}] ${chapter.title}`);
+  }
+  for (const chapter of added) {
+    console.log(`  new      [${chapter.index + 1}] ${chapter.title}`);
+  }
+  for (const chapter of removed) {
+    console.log(`  removed  ${chapter.title} (${chapter.url})`);
+  }
+}
+
+/**
+ * Read and validate a meta.json file.
+ *
+ * @param filePath - Path to meta.json
+ * @returns Book metadata
+ * @throws Error if the file cannot be read or is invalid
+ */
+export async function readBookMeta(filePath: string): Promise<BookMeta> {
+  const data = JSON.parse(await fs.readFile(filePath, "utf-8"));
+  const validation = validateBookMeta(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  return data as BookMeta;
+}
+
+/**
+ * Find the first image index after the images already saved, so an update never overwrites
+ * images that unchanged chapters still use.
+ *
+ * @param imagesDir - Directory with img-NNNN.jpg files
+ * @returns Next unused image index (0 for a missing or empty directory)
+ */
+export async function nextFreeImageIndex(imagesDir: string): Promise<number> {
+  let files: string[];
+  try {
+    files = await fs.readdir(imagesDir);
+  } catch {
+    return 0;
+  }
+  const indices = files.map((file) => file.match(/^img-(\d+)\.jpg$/)).map((match) => (match ? Number(match[1]) : -1));
+  return Math.max(-1, ...indices) + 1;
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { parseUrlList, readUrlList } from "./urllist.js";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+}));
+
+import * as fs from "node:fs/promises";
+
+describe("parseUrlList", () => {
+  it("reads one URL per line in order", () => {
+    expect(parseUrlList("https://example.com/b\nhttps://example.com/a\n")).toEqual([
+      { url: "https://example.com/b", title: null },
+      { url: "https://example.com/a", title: null },
+    ]);
+  });
+
+  it("reads title overrides after the URL", () => {
+    expect(parseUrlList("https://example.com/intro   #  Introduction \r\nhttps://example.com/two #")).toEqual([
+      { url: "https://example.com/intro", title: "Introduction" },
+      { url: "https://example.com/two", title: null },
+    ]);
+  });
+
+  it("keeps fragments and titles containing #", () => {
+    expect(parseUrlList("https://example.com/page#part2 # Part #2")).toEqual([
+      { url: "https://example.com/page#part2", title: "Part #2" },
+    ]);
+  });
+
+  it("skips blank lines and comments", () => {
+    const text = "# Part one\n\n   \nhttps://example.com/one\n  # https://example.com/skipped\n";
+
+    expect(parseUrlList(text)).toEqual([{ url: "https://example.com/one", title: null }]);
+  });
+
+  it("reports the line of an invalid URL", () => {
+    expect(() => parseUrlList("https://example.com/one\nexample.com/two")).toThrow(
+      "Line 2: Invalid URL format (example.com/two)",
+    );
+    expect(() => parseUrlList("ftp://example.com/file")).toThrow("Line 1: URL must use http, https or file protocol");
+  });
+
+  it("rejects text after the URL without a #", () => {
+    expect(() => parseUrlList("https://example.com/one Introduction")).toThrow(
+      'Line 1: expected "<url>" or "<url> # <title>"',
+    );
+  });
+});
+
+describe("readUrlList", () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFile).mockReset();
+  });
+
+  it("reads and parses the file", async () => {
+    vi.mocked(fs.readFile).mockResolvedValue("https://example.com/one # One\n");
+
+    expect(await readUrlList("chapters.txt")).toEqual([{ url: "https://example.com/one", title: "One" }]);
+    expect(fs.readFile).toHaveBeenCalledWith("chapters.txt", "utf-8");
+  });
+
+  it("rejects a file without URLs", async () => {
+    vi.mocked(fs.readFile).mockResolvedValue("# nothing yet\n");
+
+    await expect(readUrlList("chapters.txt")).rejects.toThrow("No URLs in chapters.txt");
+  });
+});
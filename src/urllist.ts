@@ -0,0 +1,71 @@
+/**
+ * Chapter URL list files
+ *
+ * Plain text, one chapter URL per line, in reading order. A ` # ` after the URL
+ * starts a title override; blank lines and lines starting with `#` are ignored.
+ *
+ * @example
+ * # Part one
+ * https://example.com/intro # Introduction
+ * https://example.com/page2
+ */
+
+import * as fs from "node:fs/promises";
+import { validateUrl } from "./utils.js";
+
+/** A chapter listed in a URL list file */
+export interface UrlListEntry {
+  /** Chapter URL */
+  url: string;
+  /** Title override, or null to take the title from the page */
+  title: string | null;
+}
+
+/**
+ * Parse the contents of a URL list file.
+ *
+ * @param text - File contents
+ * @returns Entries in file order
+ * @throws Error naming the line number of the first invalid line
+ *
+ * @example
+ * parseUrlList('https://a.com/one # First\nhttps://a.com/two')
+ * // [{ url: 'https://a.com/one', title: 'First' }, { url: 'https://a.com/two', title: null }]
+ */
+export function parseUrlList(text: string): UrlListEntry[] {
+  const entries: UrlListEntry[] = [];
+
+  for (const [i, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    // The URL ends at the first whitespace; a "#" inside the URL is a fragment, not a title
+    const match = line.match(/^(\S+)(?:\s+#\s*(.*))?$/);
+    if (!match) {
+      throw new Error(`Line ${i + 1}: expected "<url>" or "<url> # <title>" (${line})`);
+    }
+    const [, url, title] = match;
+    const validation = validateUrl(url);
+    if (!validation.isValid) {
+      throw new Error(`Line ${i + 1}: ${validation.error} (${line})`);
+    }
+    entries.push({ url, title: title?.trim() || null });
+  }
+
+  return entries;
+}
+
+/**
+ * Read and parse a URL list file.
+ *
+ * @param filePath - Path to the file
+ * @returns Entries in file order
+ * @throws Error if the file cannot be read, has an invalid URL, or lists no URLs
+ */
+export async function readUrlList(filePath: string): Promise<UrlListEntry[]> {
+  const entries = parseUrlList(await fs.readFile(filePath, "utf-8"));
+  if (entries.length === 0) {
+    throw new Error(`No URLs in ${filePath}`);
+  }
+  return entries;
+}
@@ -10,11 +10,14 @@ import {
   getPositionalArg,
   getStringArg,
   globToRegex,
+  hasFlag,
   hasHelpFlag,
   INITIAL_BACKOFF_MS,
   MAX_RETRIES,
+  pageScript,
   resolveUrl,
   sanitizeFilename,
+  setFetchHandler,
   sleep,
   transformTildaImageUrl,
   validateBookMeta,
@@ -301,15 +304,18 @@ describe("validateUrl", () => {
     expect(validateUrl("://missing-protocol.com")).toEqual({ isValid: false, error: "Invalid URL format" });
   });
 
-  it("rejects non-http/https protocols", () => {
-    expect(validateUrl("ftp://example.com")).toEqual({ isValid: false, error: "URL must use http or https protocol" });
-    expect(validateUrl("file:///path/to/file")).toEqual({
+  it("accepts file URLs", () => {
+    expect(validateUrl("file:///path/to/export/index.html")).toEqual({ isValid: true });
+  });
+
+  it("rejects other protocols", () => {
+    expect(validateUrl("ftp://example.com")).toEqual({
       isValid: false,
-      error: "URL must use http or https protocol",
+      error: "URL must use http, https or file protocol",
     });
     expect(validateUrl("mailto:test@example.com")).toEqual({
       isValid: false,
-      error: "URL must use http or https protocol",
+      error: "URL must use http, https or file protocol",
     });
   });
 });
@@ -422,6 +428,58 @@ describe("validateBookMeta", () => {
     expect(validateBookMeta(meta)).toEqual({ isValid: false, error: "chapters[0].filename must be a string" });
   });
 
+  it("accepts chapters with sections", () => {
+    const meta = {
+      ...validMeta,
+      chapters: [{ index: 0, title: "Ch1", url: "https://example.com", filename: "001.md", sections: ["Part I"] }],
+    };
+    expect(validateBookMeta(meta)).toEqual({ isValid: true });
+  });
+
+  it("rejects chapter with non-string sections", () => {
+    const meta = {
+      ...validMeta,
+      chapters: [{ index: 0, title: "Ch1", url: "https://example.com", filename: "001.md", sections: [1] }],
+    };
+    expect(validateBookMeta(meta)).toEqual({
+      isValid: false,
+      error: "chapters[0].sections must be an array of strings",
+    });
+  });
+
+  it("accepts chapters with a content hash and timestamp", () => {
+    const meta = {
+      ...validMeta,
+      chapters: [
+        {
+          index: 0,
+          title: "Ch1",
+          url: "https://example.com",
+          filename: "001.md",
+          contentHash: "abc123",
+          scrapedAt: "2024-01-01T00:00:00.000Z",
+        },
+      ],
+    };
+    expect(validateBookMeta(meta)).toEqual({ isValid: true });
+  });
+
+  it("rejects chapter with a non-string content hash", () => {
+    const meta = {
+      ...validMeta,
+      chapters: [{ index: 0, title: "Ch1", url: "https://example.com", filename: "001.md", contentHash: 42 }],
+    };
+    expect(validateBookMeta(meta)).toEqual({ isValid: false, error: "chapters[0].contentHash must be a string" });
+  });
+
+  it("rejects chapter with a non-boolean stale flag", () => {
+    const meta = {
+      ...validMeta,
+      chapters: [{ index: 0, title: "Ch1", url: "https://example.com", filename: "001.md", stale: "yes" }],
+    };
+    expect(validateBookMeta(meta)).toEqual({ isValid: false, error: "chapters[0].stale must be a boolean" });
+  });
+
   it("reports correct index for invalid chapter", () => {
     const meta = {
       ...validMeta,
@@ -451,6 +509,20 @@ describe("hasHelpFlag", () => {
   });
 });
 
+describe("hasFlag", () => {
+  it("returns true when flag is present", () => {
+    expect(hasFlag(["https://example.com", "--skip-decorative-bg"], "--skip-decorative-bg")).toBe(true);
+  });
+
+  it("returns false when flag is absent", () => {
+    expect(hasFlag(["https://example.com"], "--skip-decorative-bg")).toBe(false);
+  });
+
+  it("does not match flag values", () => {
+    expect(hasFlag(["--name", "--skip-decorative-bgx"], "--skip-decorative-bg")).toBe(false);
+  });
+});
+
 describe("getStringArg", () => {
   it("returns value when flag is present", () => {
     expect(getStringArg(["--name", "MyBook"], "--name", "default")).toBe("MyBook");
@@ -625,6 +697,20 @@ describe("resolveUrl", () => {
   });
 });
 
+describe("pageScript", () => {
+  it("defines __name for named helpers in function source", () => {
+    const source = '(function (n) { const twice = __name((x) => x * 2, "twice"); return twice(n); })(21)';
+
+    expect(new Function(`return ${pageScript(source)}`)()).toBe(42);
+  });
+
+  it("evaluates to the value of the expression", () => {
+    expect(new Function(`return ${pageScript('({ url: "https://example.com" })')}`)()).toEqual({
+      url: "https://example.com",
+    });
+  });
+});
+
 describe("retry constants", () => {
   it("has correct default values", () => {
     expect(MAX_RETRIES).toBe(3);
@@ -754,4 +840,19 @@ describe("fetchWithRetry", () => {
 
     expect(mockFetch).toHaveBeenCalledTimes(1);
   });
+
+  it("sends requests through the fetch handler until it is reset", async () => {
+    const handler = vi.fn().mockResolvedValue({ ok: true, status: 200 } as Response);
+    mockFetch.mockResolvedValue({ ok: true, status: 200 } as Response);
+
+    setFetchHandler(handler);
+    await fetchWithRetry("https://example.com/image.png");
+    expect(handler).toHaveBeenCalledWith("https://example.com/image.png");
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    setFetchHandler(null);
+    await fetchWithRetry("https://example.com/image.png");
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
 });
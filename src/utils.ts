@@ -232,6 +232,17 @@ export function hasHelpFlag(args: string[]): boolean {
   return args.includes("--help") || args.includes("-h");
 }
 
+/**
+ * Check if a boolean flag is present in arguments.
+ *
+ * @param args - Command line arguments array
+ * @param flag - Flag to look for (e.g., '--skip-decorative-bg')
+ * @returns True if the flag is present
+ */
+export function hasFlag(args: string[], flag: string): boolean {
+  return args.includes(flag);
+}
+
 /**
  * Get a string argument value from command line arguments.
  * If the flag appears multiple times, returns the last value.
@@ -335,7 +346,7 @@ export function getPositionalArg(args: string[], knownFlags: string[] = []): str
 // ============================================================================
 
 /**
- * Validate that a string is a valid HTTP/HTTPS URL.
+ * Validate that a string is a valid HTTP/HTTPS URL, or a file:// URL of a page on disk.
  *
  * @param url - URL string to validate
  * @returns Object with isValid boolean and error message if invalid
@@ -343,7 +354,8 @@ export function getPositionalArg(args: string[], knownFlags: string[] = []): str
  * @example
  * validateUrl('https://example.com') // { isValid: true }
  * validateUrl('not-a-url') // { isValid: false, error: 'Invalid URL format' }
- * validateUrl('ftp://example.com') // { isValid: false, error: 'URL must use http or https protocol' }
+ * validateUrl('file:///home/me/export/index.html') // { isValid: true }
+ * validateUrl('ftp://example.com') // { isValid: false, error: 'URL must use http, https or file protocol' }
  */
 export function validateUrl(url: string): { isValid: true } | { isValid: false; error: string } {
   if (!url || typeof url !== "string") {
@@ -352,8 +364,8 @@ export function validateUrl(url: string): { isValid: true } | { isValid: false;
 
   try {
     const parsed = new URL(url);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-      return { isValid: false, error: "URL must use http or https protocol" };
+    if (!["http:", "https:", "file:"].includes(parsed.protocol)) {
+      return { isValid: false, error: "URL must use http, https or file protocol" };
     }
     return { isValid: true };
   } catch {
@@ -367,6 +379,61 @@ export interface MetaValidationResult {
   error?: string;
 }
 
+/**
+ * Validate a single chapter entry of meta.json.
+ *
+ * @param data - Chapter entry to validate
+ * @param i - Position in the chapters array (for error messages)
+ * @returns Error message, or null if the chapter is valid
+ */
+function validateChapterMeta(data: unknown, i: number): string | null {
+  const chapter = data as Record<string, unknown>;
+  if (!chapter || typeof chapter !== "object") {
+    return `chapters[${i}] must be an object`;
+  }
+
+  if (typeof chapter.index !== "number") {
+    return `chapters[${i}].index must be a number`;
+  }
+
+  if (typeof chapter.title !== "string") {
+    return `chapters[${i}].title must be a string`;
+  }
+
+  if (typeof chapter.url !== "string") {
+    return `chapters[${i}].url must be a string`;
+  }
+
+  if (typeof chapter.filename !== "string") {
+    return `chapters[${i}].filename must be a string`;
+  }
+
+  const sections = chapter.sections;
+  if (sections !== undefined && !(Array.isArray(sections) && sections.every((s) => typeof s === "string"))) {
+    return `chapters[${i}].sections must be an array of strings`;
+  }
+
+  for (const field of ["contentHash", "scrapedAt"]) {
+    if (chapter[field] !== undefined && typeof chapter[field] !== "string") {
+      return `chapters[${i}].${field} must be a string`;
+    }
+  }
+
+  if (chapter.stale !== undefined && typeof chapter.stale !== "boolean") {
+    return `chapters[${i}].stale must be a boolean`;
+  }
+
+  const images = chapter.images;
+  if (
+    images !== undefined &&
+    !(images && typeof images === "object" && Object.values(images).every((file) => typeof file === "string"))
+  ) {
+    return `chapters[${i}].images must map image URLs to filenames`;
+  }
+
+  return null;
+}
+
 /**
  * Validate the structure of meta.json content.
  * Checks that all required fields exist and have correct types.
@@ -400,25 +467,9 @@ export function validateBookMeta(data: unknown): MetaValidationResult {
 
   // Validate each chapter
   for (let i = 0; i < meta.chapters.length; i++) {
-    const chapter = meta.chapters[i] as Record<string, unknown>;
-    if (!chapter || typeof chapter !== "object") {
-      return { isValid: false, error: `chapters[${i}] must be an object` };
-    }
-
-    if (typeof chapter.index !== "number") {
-      return { isValid: false, error: `chapters[${i}].index must be a number` };
-    }
-
-    if (typeof chapter.title !== "string") {
-      return { isValid: false, error: `chapters[${i}].title must be a string` };
-    }
-
-    if (typeof chapter.url !== "string") {
-      return { isValid: false, error: `chapters[${i}].url must be a string` };
-    }
-
-    if (typeof chapter.filename !== "string") {
-      return { isValid: false, error: `chapters[${i}].filename must be a string` };
+    const error = validateChapterMeta(meta.chapters[i], i);
+    if (error) {
+      return { isValid: false, error };
     }
   }
 
@@ -447,6 +498,25 @@ export function resolveUrl(href: string, baseUrl: string): string | null {
   }
 }
 
+// ============================================================================
+// Page Script Helpers
+// ============================================================================
+
+/**
+ * Wrap a script expression for page.evaluate or evaluateOnNewDocument.
+ * Functions sent to the page as source (`${fn}`) keep the __name() calls that tsx/esbuild
+ * (keepNames) add to their named helpers; the wrapper defines __name so they run in the page.
+ *
+ * @param expression - JavaScript expression, usually a function source called with its arguments
+ * @returns Self-contained script that evaluates to the value of the expression
+ *
+ * @example
+ * pageScript(`(${locate})(${JSON.stringify(url)})`)
+ */
+export function pageScript(expression: string): string {
+  return `(() => { const __name = (target) => target; return (${expression}); })()`;
+}
+
 // ============================================================================
 // Retry Helpers
 // ============================================================================
@@ -467,6 +537,21 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** Performs a single request for fetchWithRetry */
+export type FetchHandler = (url: string) => Promise<Response>;
+
+/** Current request handler; plain fetch() unless a network archive is recording or replaying */
+let fetchHandler: FetchHandler = (url) => fetch(url);
+
+/**
+ * Replace the function fetchWithRetry uses for each request.
+ *
+ * @param handler - Request handler, or null to restore plain fetch()
+ */
+export function setFetchHandler(handler: FetchHandler | null): void {
+  fetchHandler = handler ?? ((url) => fetch(url));
+}
+
 /**
  * Fetch a URL with exponential backoff retry on failure.
  * Retries on network errors and 5xx server errors.
@@ -493,7 +578,7 @@ export async function fetchWithRetry(
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch(url);
+      const response = await fetchHandler(url);
 
       // Don't retry on client errors (4xx) except 429 Too Many Requests
       if (response.status >= 400 && response.status < 500 && response.status !== 429) {